@@ -0,0 +1,137 @@
+import esbuild from "esbuild";
+import { performance } from "perf_hooks";
+
+// Times dot mode decorations on a 50k-word note. Not a test, run it by hand
+// with `npm run bench` after touching src/dot-mode.ts.
+
+const WORDS = 50000;
+const ITERATIONS = 10;
+
+const result = await esbuild.build({
+	entryPoints: ["src/dot-mode.ts"],
+	bundle: true,
+	format: "esm",
+	platform: "node",
+	target: "es2018",
+	logLevel: "error",
+	write: false,
+});
+const { buildDotModeRuns, splitGraphemes, DOT_MODE_PUNCTUATION } = await import(
+	`data:text/javascript;base64,${Buffer.from(
+		result.outputFiles[0].contents
+	).toString("base64")}`
+);
+const { Decoration } = await import("@codemirror/view");
+const { Text } = await import("@codemirror/state");
+
+// Same shape every run: sentences of 4 to 15 words, paragraphs of 1 to 6
+// sentences
+function generateNote(words) {
+	const vocabulary = [
+		"the", "quiet", "morning", "light", "fell", "across", "kitchen",
+		"table", "while", "they", "wrote", "notes", "about", "yesterday's",
+		"meeting", "and", "what", "might", "come", "next", "résumé", "🙂",
+	];
+	let seed = 1;
+	const random = (max) => {
+		seed = (seed * 16807) % 2147483647;
+		return seed % max;
+	};
+
+	const paragraphs = [];
+	let sentences = [];
+	let sentence = [];
+	let sentenceLength = 4 + random(12);
+	let paragraphLength = 1 + random(6);
+	for (let i = 0; i < words; i++) {
+		sentence.push(vocabulary[random(vocabulary.length)]);
+		if (sentence.length === sentenceLength) {
+			sentences.push(`${sentence.join(" ")}${".?!"[random(3)]}`);
+			sentence = [];
+			sentenceLength = 4 + random(12);
+		}
+		if (sentences.length === paragraphLength) {
+			paragraphs.push(sentences.join(" "));
+			sentences = [];
+			paragraphLength = 1 + random(6);
+		}
+	}
+	if (sentence.length) sentences.push(`${sentence.join(" ")}.`);
+	if (sentences.length) paragraphs.push(sentences.join(" "));
+	return paragraphs.join("\n\n");
+}
+
+function time(label, fn) {
+	fn();
+	const start = performance.now();
+	let value;
+	for (let i = 0; i < ITERATIONS; i++) value = fn();
+	const ms = (performance.now() - start) / ITERATIONS;
+	console.log(`${label.padEnd(36)} ${ms.toFixed(2).padStart(9)} ms`);
+	return value;
+}
+
+const marks = {
+	char: Decoration.mark({ class: "cm-dot-mode-char" }),
+	space: Decoration.mark({ class: "cm-dot-mode-space" }),
+	punct: Decoration.mark({ class: "cm-dot-mode-punct" }),
+};
+const toSet = (runs) =>
+	Decoration.set(
+		runs.map((run) => marks[run.type].range(run.from, run.to)),
+		true
+	);
+
+const text = generateNote(WORDS);
+const doc = Text.of(text.split("\n"));
+const punctuation = splitGraphemes(DOT_MODE_PUNCTUATION);
+console.log(`${WORDS} words, ${text.length} characters, ${doc.lines} lines\n`);
+
+// Line by line, as the editor only ever segments what's on screen. Some
+// runtimes copy the whole input into every segment, which runs out of
+// memory on a note this size in one piece.
+function mapLines(fn) {
+	const result = [];
+	for (let i = 1; i <= doc.lines; i++) result.push(...fn(doc.line(i)));
+	return result;
+}
+
+// What the editor drew before runs: one mark per character
+const perCharacter = time("Per-character marks, whole note", () =>
+	toSet(
+		mapLines((line) => {
+			const runs = [];
+			let pos = line.from;
+			for (const grapheme of splitGraphemes(line.text)) {
+				let type = "char";
+				if (/^\s+$/.test(grapheme)) type = "space";
+				else if (punctuation.includes(grapheme)) type = "punct";
+				runs.push({ from: pos, to: pos + grapheme.length, type });
+				pos += grapheme.length;
+			}
+			return runs;
+		})
+	)
+);
+
+const decorations = time("Run marks, whole note", () =>
+	toSet(
+		mapLines((line) => buildDotModeRuns(line.text, line.from, punctuation))
+	)
+);
+
+// An edit redraws the line it touched and maps everything else
+const line = doc.line(Math.ceil(doc.lines / 2));
+time("Run marks, one line after an edit", () =>
+	decorations.update({
+		filterFrom: line.from,
+		filterTo: line.to,
+		filter: () => false,
+		add: buildDotModeRuns(line.text, line.from, punctuation).map((run) =>
+			marks[run.type].range(run.from, run.to)
+		),
+		sort: true,
+	})
+);
+
+console.log(`\n${perCharacter.size} per-character marks, ${decorations.size} runs`);
@@ -1,57 +1,238 @@
-import { Editor, MarkdownView, Notice, Plugin, TFile } from "obsidian";
+import {
+	Editor,
+	MarkdownView,
+	normalizePath,
+	Notice,
+	Plugin,
+	TFile,
+} from "obsidian";
 import * as fs from "fs/promises";
 import { App, PluginSettingTab, Setting } from "obsidian";
-import markdownit from "markdown-it";
-import { Token } from "markdown-it";
 import {
-	EditorView,
-	Decoration,
-	ViewPlugin,
-	ViewUpdate,
-	DecorationSet,
-} from "@codemirror/view";
-import { RangeSetBuilder } from "@codemirror/state";
+	DEFAULT_EXPORT_PROFILE,
+	ExportProfile,
+	formatSectionRules,
+	parseSectionRules,
+} from "./src/hugo";
+import {
+	HugoDryRun,
+	HugoExporter,
+	HugoExportResult,
+} from "./src/hugo-exporter";
+import { IMAGE_FORMATS, ImageFormat } from "./src/hugo-images";
+import { SHORTCODE_KINDS, ShortcodeMapping } from "./src/hugo-shortcodes";
+import {
+	buildManifest,
+	deleteOrphans,
+	ExportManifest,
+	findOrphans,
+	keepOrphans,
+	readManifest,
+	writeManifest,
+} from "./src/hugo-manifest";
+import { NotesSitePublisher, NOTES_SITE_INGEST_URL } from "./src/notes-site";
+import { PublishQueue, QueuedPublish } from "./src/publish-queue";
+import {
+	ConfirmModal,
+	ConfirmModalOptions,
+	HugoDryRunModal,
+	RedactionPreviewModal,
+	ValidationModal,
+} from "./src/modals";
+import { PublishValidator, ValidationResult } from "./src/validation";
+import { AutoPublisher, PublishedHashes } from "./src/auto-publish";
+import { DEFAULT_TEMPLATE, TemplateRenderer } from "./src/templates";
+import { createMarkdownRenderer } from "./src/markdown";
+import { StaticSiteGenerator } from "./src/site-generator";
+import {
+	getSsgAdapter,
+	SSG_ADAPTER_KINDS,
+	SsgAdapterKind,
+} from "./src/ssg-adapters";
+import { FeedGenerator } from "./src/feeds";
+import { expandTransclusions } from "./src/transclusion";
+import { redactContent, RedactionResult } from "./src/redaction";
+import {
+	LINK_TARGET_MODES,
+	LinkTargetMode,
+	LinkTargetResolver,
+} from "./src/link-targets";
+import { getLinkDisplayText, replaceWikilinks, Wikilink } from "./src/links";
+import {
+	DOT_MODE_PUNCTUATION,
+	DOT_MODE_REVEALS,
+	DotModeReveal,
+	dotModeExtension,
+	renderDotModeText,
+	splitGraphemes,
+} from "./src/dot-mode";
+import { DotModeController, parseFolderList } from "./src/dot-mode-controller";
+import {
+	Frontmatter,
+	FrontmatterDocument,
+	getFrontmatter,
+	getFrontmatterTags,
+	hasUnreadableTags,
+	removeFrontmatterTag,
+	updateFrontmatter,
+} from "./src/frontmatter";
+
+// A vault note that is exported to a standalone HTML page as it changes
+interface Dashboard {
+	note: string;
+	outputPath: string;
+	linkTarget: LinkTargetMode;
+}
 
 interface MyPluginSettings {
 	mySetting: string;
-	startPageExportPath: string;
+	dashboards: Dashboard[];
 	progressBarEnabled: boolean;
 	dotModeEnabled: boolean;
-}
-
-interface Frontmatter {
-	[key: string]: string | string[] | undefined;
-	tags?: string[];
-	date?: string;
-	title?: string;
+	dotModeReveal: DotModeReveal;
+	dotModeRevealChars: number;
+	dotModePunctuation: string;
+	dotModePrivateNotes: boolean;
+	dotModeFolders: string[];
+	dotModeIdleMinutes: number;
+	exportProfiles: ExportProfile[];
+	defaultExportProfile: string;
+	previewHugoExport: boolean;
+	notesSiteEndpoint: string;
+	publishQueue: QueuedPublish[];
+	uploadedAssets: { [hash: string]: string };
+	privateTags: string[];
+	redactComments: boolean;
+	redactHeadings: string[];
+	frontmatterAllowlist: string[];
+	autoPublishNotesSite: boolean;
+	autoPublishHugo: boolean;
+	autoPublishDelay: number;
+	publishedHashes: PublishedHashes;
+	templateFolder: string;
+	staticSiteFolder: string;
+	staticSiteTag: string;
+	staticSiteOutputDir: string;
+	feedOutputDir: string;
+	feedSiteUrl: string;
+	feedTitle: string;
+	feedDescription: string;
+	feedAuthor: string;
 }
 
 const DEFAULT_SETTINGS: MyPluginSettings = {
 	mySetting: "default",
-	startPageExportPath: "",
+	dashboards: [],
 	progressBarEnabled: false,
 	dotModeEnabled: false,
+	dotModeReveal: "none",
+	dotModeRevealChars: 10,
+	dotModePunctuation: DOT_MODE_PUNCTUATION,
+	dotModePrivateNotes: true,
+	dotModeFolders: [],
+	dotModeIdleMinutes: 0,
+	exportProfiles: [{ ...DEFAULT_EXPORT_PROFILE }],
+	defaultExportProfile: DEFAULT_EXPORT_PROFILE.name,
+	previewHugoExport: false,
+	notesSiteEndpoint: NOTES_SITE_INGEST_URL,
+	publishQueue: [],
+	uploadedAssets: {},
+	privateTags: ["private"],
+	redactComments: true,
+	redactHeadings: ["Private"],
+	frontmatterAllowlist: [],
+	autoPublishNotesSite: false,
+	autoPublishHugo: false,
+	autoPublishDelay: 30,
+	publishedHashes: {},
+	templateFolder: "",
+	staticSiteFolder: "",
+	staticSiteTag: "",
+	staticSiteOutputDir: "",
+	feedOutputDir: "",
+	feedSiteUrl: "",
+	feedTitle: "",
+	feedDescription: "",
+	feedAuthor: "",
 };
 
 export default class MyPlugin extends Plugin {
 	settings: MyPluginSettings;
-	private debounceTimer: NodeJS.Timeout | null = null;
+	hugoExporter: HugoExporter;
+	notesSitePublisher: NotesSitePublisher;
+	publishQueue: PublishQueue;
+	validator: PublishValidator;
+	autoPublisher: AutoPublisher;
+	templates: TemplateRenderer;
+	siteGenerator: StaticSiteGenerator;
+	feeds: FeedGenerator;
+	linkTargets: LinkTargetResolver;
+	dotMode: DotModeController;
+	private publishStatusBarItem: HTMLElement | null = null;
+	private dashboardTimers = new Map<string, number>();
 	private dotModeRibbonIcon: HTMLElement | null = null;
-	private static instance: MyPlugin;
 
-	private debouncedExportStartPage = (editor: Editor, view: MarkdownView) => {
-		if (this.debounceTimer) {
-			clearTimeout(this.debounceTimer);
+	private debouncedExportDashboard = (
+		dashboard: Dashboard,
+		file: TFile,
+		editor: Editor
+	) => {
+		const existing = this.dashboardTimers.get(dashboard.outputPath);
+		if (existing) {
+			window.clearTimeout(existing);
 		}
 
-		this.debounceTimer = setTimeout(() => {
-			this.exportStartPageHtml(editor, view);
+		const timer = window.setTimeout(() => {
+			this.dashboardTimers.delete(dashboard.outputPath);
+			this.exportDashboardHtml(dashboard, file, editor.getValue());
 		}, 3000); // 3 second debounce
+		this.dashboardTimers.set(dashboard.outputPath, timer);
 	};
 
 	async onload() {
-		MyPlugin.instance = this;
 		await this.loadSettings();
+		this.hugoExporter = new HugoExporter(this);
+		this.notesSitePublisher = new NotesSitePublisher(this);
+		this.validator = new PublishValidator(this);
+		this.autoPublisher = new AutoPublisher(this);
+		this.templates = new TemplateRenderer(
+			this.app,
+			() => this.settings.templateFolder
+		);
+		this.siteGenerator = new StaticSiteGenerator(this);
+		this.feeds = new FeedGenerator(this);
+		this.linkTargets = new LinkTargetResolver(this);
+		this.dotMode = new DotModeController(this);
+		this.publishQueue = new PublishQueue(this.settings.publishQueue, {
+			send: (item) => this.notesSitePublisher.send(item),
+			save: async (items) => {
+				this.settings.publishQueue = items;
+				await this.saveSettings();
+			},
+			onChange: () => this.updatePublishStatusBar(),
+			onGiveUp: (item) => {
+				new Notice(
+					`Publishing ${item.payload.title} to notes.site failed: ${item.lastError}`
+				);
+			},
+		});
+
+		// Status bar item for queued and failed notes.site publishes
+		this.publishStatusBarItem = this.addStatusBarItem();
+		this.publishStatusBarItem.addClass("mod-clickable");
+		this.publishStatusBarItem.addEventListener("click", () => {
+			this.showFailedPublishes();
+		});
+		this.updatePublishStatusBar();
+
+		// Retry queued publishes periodically and as soon as we're back online
+		this.registerInterval(
+			window.setInterval(() => this.publishQueue.process(), 30 * 1000)
+		);
+		this.registerDomEvent(window, "online", () => {
+			this.publishQueue.process();
+		});
+		this.app.workspace.onLayoutReady(() => this.publishQueue.process());
 
 		// Add ribbon icon for dot mode toggle
 		this.dotModeRibbonIcon = this.addRibbonIcon(
@@ -62,100 +243,57 @@ export default class MyPlugin extends Plugin {
 			}
 		);
 
-		// Register markdown post processor for dot mode
+		// Register markdown post processor for dot mode. Spans are only added
+		// to notes dot mode is on for, and leaves rerender when that changes.
 		this.registerMarkdownPostProcessor((el, ctx) => {
-			if (this.settings.dotModeEnabled) {
+			const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+			if (
+				this.dotMode.isEnabledFor(file instanceof TFile ? file : null)
+			) {
 				this.applyDotMode(el);
 			}
 		});
 
-		// Register editor extension for source mode
-		// Register editor extension for source mode
-		this.registerEditorExtension([
-			ViewPlugin.fromClass(
-				class {
-					decorations: DecorationSet;
-
-					constructor(view: EditorView) {
-						this.decorations = this.buildDecorations(view);
-					}
-
-					update(update: ViewUpdate) {
-						if (update.docChanged || update.viewportChanged) {
-							this.decorations = this.buildDecorations(
-								update.view
-							);
-						}
-					}
-
-					buildDecorations(view: EditorView) {
-						if (!MyPlugin.instance?.settings?.dotModeEnabled) {
-							return Decoration.none;
-						}
-
-						const builder = new RangeSetBuilder<Decoration>();
-
-						// Array of punctuation characters to show
-						const punctuationToShow = [
-							".",
-							",",
-							'"',
-							":",
-							"-",
-							";",
-							"!",
-							"?",
-						];
-
-						// Iterate through the visible content
-						for (const { from, to } of view.visibleRanges) {
-							const text = view.state.doc.sliceString(from, to);
-							let pos = 0;
-
-							while (pos < text.length) {
-								const char = text[pos];
-								const absPos = from + pos;
-
-								// First check if it's a punctuation mark we want to show
-								if (punctuationToShow.includes(char)) {
-									builder.add(
-										absPos,
-										absPos + 1,
-										Decoration.mark({
-											class: "cm-dot-mode-punct",
-										})
-									);
-								} else if (char === " ") {
-									// Style spaces differently
-									builder.add(
-										absPos,
-										absPos + 1,
-										Decoration.mark({
-											class: "cm-dot-mode-space",
-										})
-									);
-								} else {
-									// Style regular characters as dots
-									builder.add(
-										absPos,
-										absPos + 1,
-										Decoration.mark({
-											class: "cm-dot-mode-char",
-										})
-									);
-								}
-								pos++;
-							}
-						}
+		// Re-check the dot mode rules as notes open and their frontmatter
+		// changes, and watch for input to time out into idle dot mode
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", () =>
+				this.dotMode.refresh()
+			)
+		);
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => this.dotMode.refresh())
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("changed", () => this.dotMode.refresh())
+		);
+		const activityEvents: (keyof DocumentEventMap)[] = [
+			"keydown",
+			"mousedown",
+			"mousemove",
+			"touchstart",
+		];
+		for (const type of activityEvents) {
+			this.registerDomEvent(document, type, () =>
+				this.dotMode.recordActivity()
+			);
+		}
+		this.registerInterval(
+			window.setInterval(() => this.dotMode.checkIdle(), 15 * 1000)
+		);
+		this.app.workspace.onLayoutReady(() => this.dotMode.refresh());
 
-						return builder.finish();
-					}
-				},
-				{
-					decorations: (v) => v.decorations,
-				}
-			),
-		]);
+		// Register editor extension for source mode
+		this.registerEditorExtension(
+			dotModeExtension(
+				() => this.dotMode.isEnabledFor(null),
+				() => ({
+					reveal: this.settings.dotModeReveal,
+					revealChars: this.settings.dotModeRevealChars,
+					punctuation: this.settings.dotModePunctuation,
+				})
+			)
+		);
 
 		// Add command for toggling dot mode
 		this.addCommand({
@@ -174,14 +312,18 @@ export default class MyPlugin extends Plugin {
 			})
 		);
 
-		// Register editor change event for START page auto-export
+		// Register editor change event for dashboard auto-export
 		this.registerEvent(
 			this.app.workspace.on(
 				"editor-change",
 				(editor: Editor, view: MarkdownView) => {
-					if (view?.file?.basename === "START") {
-						this.debouncedExportStartPage(editor, view);
+					const file = view?.file;
+					if (!file) return;
+
+					for (const dashboard of this.getDashboardsForFile(file)) {
+						this.debouncedExportDashboard(dashboard, file, editor);
 					}
+					this.autoPublisher.schedule(file, editor.getValue());
 				}
 			)
 		);
@@ -189,143 +331,105 @@ export default class MyPlugin extends Plugin {
 		// Add command for manual export
 		this.addCommand({
 			id: "export-start-page",
-			name: "Export START page to HTML",
+			name: "Export dashboard page to HTML",
 			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.exportStartPageHtml(editor, view);
-			},
-		});
-
-		this.addCommand({
-			id: "write-file",
-			name: "Export to local hugo repo",
-			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				const basePath =
-					"/Users/jonbo/Github/jborichevskiy/up-and-to-the-right/content/posts/";
-
 				const file = view?.file;
 				if (!file) return;
 
-				const actualPath = file.path;
-				const parts = actualPath.split("/");
-				const filename = parts[parts.length - 1];
-
-				// Check if it's a daily note
-				const date = filename.split(".")[0];
-				if (date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-					console.log("daily file detected, skipping");
+				const dashboards = this.getDashboardsForFile(file);
+				if (dashboards.length === 0) {
+					new Notice(
+						"This note is not configured as a dashboard in settings"
+					);
 					return;
 				}
+				for (const dashboard of dashboards) {
+					this.exportDashboardHtml(
+						dashboard,
+						file,
+						editor.getValue()
+					);
+				}
+			},
+		});
 
-				// Get file content
-				let content = editor.getDoc().getValue();
+		this.addCommand({
+			id: "export-all-dashboards",
+			name: "Export all dashboard pages to HTML",
+			callback: () => {
+				this.exportAllDashboards();
+			},
+		});
 
-				const frontmatter = this.getFrontmatter(content);
+		this.addCommand({
+			id: "build-static-site",
+			name: "Build static site",
+			callback: () => {
+				this.buildStaticSite();
+			},
+		});
 
-				// Check if frontmatter exists and has a date
-				if (!frontmatter || !frontmatter.date) {
-					// If no date, add current date in yyyy-mm-dd format
-					const currentDate = new Date().toISOString().split("T")[0];
-					content = content.replace(
-						/^---\n/,
-						`---\ndate: ${currentDate}\n`
+		this.addCommand({
+			id: "write-feeds",
+			name: "Write RSS, Atom and JSON feeds",
+			callback: async () => {
+				if (!this.feeds.isConfigured) {
+					new Notice(
+						"Please configure the feed output directory and site URL in settings"
 					);
+					return;
 				}
-
-				// Convert filename to title
-				const title = this.filenameToTitle(filename);
-
-				// Check if frontmatter exists and has a title
-				if (!frontmatter || !frontmatter.title) {
-					// If no title, add the converted filename as title
-					content = content.replace(
-						/^---\n/,
-						`---\ntitle: ${title}\n`
+				try {
+					await this.feeds.write();
+					new Notice("Feeds written successfully");
+				} catch (error) {
+					console.error("Error writing feeds:", error);
+					new Notice(
+						"Error writing feeds. Check console for details."
 					);
 				}
+			},
+		});
 
-				// Handle images with captions
-				const lines = content.split('\n');
-				const processedLines: string[] = [];
-				let i = 0;
-				
-				while (i < lines.length) {
-					const line = lines[i];
-					const imageMatch = line.match(/!\[\[(.*?)\]\]/);
-					
-					if (imageMatch) {
-						const imageName = imageMatch[1];
-						const sourceFile = this.app.vault.getAbstractFileByPath(imageName);
-						
-						if (sourceFile instanceof TFile) {
-							const vaultPath = (this.app.vault.adapter as any).basePath;
-							const sourcePath = `${vaultPath}/${sourceFile.path}`;
-							const destPath = `/Users/jonbo/Github/jborichevskiy/up-and-to-the-right/static/${imageName}`;
-
-							const exists = await this.fileExistsWithSameSize(
-								sourcePath,
-								destPath
-							);
-
-							try {
-								if (!exists) {
-									await fs.copyFile(sourcePath, destPath);
-									console.log(`Copied image: ${imageName}`);
-								}
-
-								// Check if next line exists and is a potential caption
-								let caption = "";
-								if (i + 1 < lines.length && lines[i + 1].trim() !== "" && !lines[i + 1].match(/!\[\[.*?\]\]/)) {
-									// Check if line after that is empty (indicating this is a caption)
-									if (i + 2 >= lines.length || lines[i + 2].trim() === "") {
-										caption = lines[i + 1].trim();
-										i++; // Skip the caption line
-									}
-								}
-
-								const assembledFigure = `{{<figure src="/${imageName}" caption="${caption}">}}\n`;
-								processedLines.push(assembledFigure);
-								console.log({ assembledFigure });
-							} catch (error) {
-								console.error(
-									`Error copying image ${imageName}:`,
-									error
-								);
-								processedLines.push(line); // Keep original line on error
-							}
-						} else {
-							console.error(`Image not found in vault: ${imageName}`);
-							processedLines.push(line); // Keep original line if image not found
-						}
-					} else {
-						processedLines.push(line);
-					}
-					i++;
-				}
-				
-				content = processedLines.join('\n');
+		this.addCommand({
+			id: "create-default-template",
+			name: "Create default HTML template",
+			callback: () => {
+				this.createDefaultTemplate();
+			},
+		});
+
+		this.addCommand({
+			id: "write-file",
+			name: "Export to local hugo repo",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const file = view?.file;
+				if (!file) return;
 
-				//todo: figure out whether to put this in /posts or / at the root
+				await this.exportToHugo(
+					file,
+					editor.getDoc().getValue(),
+					this.settings.previewHugoExport
+				);
+			},
+		});
 
-				// Replace hugoAliases with aliases if it exists
-				if (frontmatter && frontmatter.hugoAliases) {
-					console.log("replacing!");
-					content = content.replace(/hugoAliases:/, "aliases:");
-				}
-				// Remove single quotes from the 'aliases:' line if it exists
-				content = content.replace(/^(aliases:.*)'(.*)'/gm, "$1$2");
+		this.addCommand({
+			id: "preview-hugo-export",
+			name: "Preview export to local hugo repo",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const file = view?.file;
+				if (!file) return;
 
-				const path =
-					basePath + filename.replace(/\s+/g, "-").toLowerCase();
+				await this.exportToHugo(file, editor.getDoc().getValue(), true);
+			},
+		});
 
-				try {
-					await fs.writeFile(path, content);
-					new Notice("File and images exported successfully.");
-				} catch (error) {
-					console.error("Error writing file:", error);
-					new Notice(
-						"Failed to write file. Check console for details."
-					);
-				}
+		this.addCommand({
+			id: "export-all-hugo",
+			name: "Export all #publish notes to local hugo repo",
+			callback: () => {
+				this.exportAllToHugo();
 			},
 		});
 
@@ -338,50 +442,66 @@ export default class MyPlugin extends Plugin {
 				const file = view?.file;
 				if (!file) return;
 
-				const path = file.path;
-				const parts = path.split("/");
-				const filename = parts[parts.length - 1];
-
-				// Check if it's a daily note
-				const date = filename.split(".")[0];
-				if (date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-					console.log("daily file detected, skipping");
-					return;
-				}
-
 				// Get file content
 				const content = editor.getDoc().getValue();
 
-				const frontmatter = this.getFrontmatter(content);
-				if (
-					!frontmatter ||
-					!frontmatter.tags ||
-					!frontmatter.tags.includes("#publish")
-				) {
-					console.log(
-						"no #publish tag in frontmatter detected, skipping"
-					);
-					return;
+				const validation = await this.validator.validate(
+					file,
+					content,
+					"notes-site"
+				);
+				if (!(await this.confirmValidation(validation))) return;
+
+				await this.notesSitePublisher.publish(file, content);
+				await this.autoPublisher.recordPublished(
+					file,
+					content,
+					"notes-site"
+				);
+				const queued = this.publishQueue.pending.some(
+					(item) => item.notePath === file.path
+				);
+				if (queued) {
+					new Notice("Couldn't reach notes.site, will retry");
 				}
+			},
+		});
 
-				// Convert filename to title
-				const title = this.filenameToTitle(filename);
+		this.addCommand({
+			id: "preview-redacted-output",
+			name: "Preview redacted output",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const file = view?.file;
+				if (!file) return;
 
-				const response = await fetch(
-					"https://jonbo-notessiteingest.web.val.run",
-					{
-						method: "POST",
-						headers: {
-							"Content-Type": "application/json",
-						},
-						body: JSON.stringify({
-							id: Date.now(),
-							title: title,
-							content: btoa(encodeURIComponent(content)),
-						}),
-					}
+				const result = await this.notesSitePublisher.prepareContent(
+					file,
+					editor.getValue()
 				);
-				console.log({ response });
+				new RedactionPreviewModal(
+					this.app,
+					`${file.basename} as published`,
+					result
+				).open();
+			},
+		});
+
+		this.addCommand({
+			id: "retry-failed-publishes",
+			name: "Retry failed notes.site publishes",
+			callback: () => {
+				this.showFailedPublishes();
+			},
+		});
+
+		this.addCommand({
+			id: "unpublish-post",
+			name: "Unpublish from notes.site and hugo",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view?.file;
+				if (!file) return;
+
+				this.unpublishNote(file, editor.getDoc().getValue());
 			},
 		});
 
@@ -389,381 +509,602 @@ export default class MyPlugin extends Plugin {
 		this.addSettingTab(new MyPluginSettingTab(this.app, this));
 	}
 
-	private async exportStartPageHtml(editor: Editor, view: MarkdownView) {
-		const file = view?.file;
-		if (!file) return;
+	private updatePublishStatusBar() {
+		if (!this.publishStatusBarItem) return;
+
+		const pending = this.publishQueue.pending.length;
+		const failed = this.publishQueue.failed.length;
+		const parts: string[] = [];
+		if (pending) parts.push(`${pending} pending`);
+		if (failed) parts.push(`${failed} failed`);
 
-		// Only proceed if the file is named START
-		if (file.basename !== "START") {
-			new Notice("This command only works on the START page");
+		this.publishStatusBarItem.setText(
+			parts.length ? `notes.site: ${parts.join(", ")}` : ""
+		);
+		this.publishStatusBarItem.toggle(parts.length > 0);
+	}
+
+	private async showFailedPublishes() {
+		const failed = this.publishQueue.failed;
+		if (failed.length === 0) {
+			const pending = this.publishQueue.pending.length;
+			new Notice(
+				pending
+					? `No failed publishes, ${pending} waiting to retry`
+					: "No failed publishes"
+			);
 			return;
 		}
 
-		// Check if export path is configured
-		if (!this.settings.startPageExportPath) {
+		const confirmed = await this.confirm({
+			title: "Failed notes.site publishes",
+			message: "These notes could not be published:",
+			items: failed.map(
+				(item) =>
+					`${item.notePath} (${item.attempts} attempts): ${item.lastError}`
+			),
+			confirmText: "Retry all",
+		});
+		if (confirmed) {
+			await this.publishQueue.retryFailed();
+		}
+	}
+
+	// Take a note down everywhere it was published, then drop its #publish
+	// tag so it doesn't go back out with the next bulk export
+	private async unpublishNote(file: TFile, content: string) {
+		// The #publish tag can't be dropped from YAML that can't be read, and
+		// taking the note down without it would see it back with the next
+		// export
+		const frontmatterError = FrontmatterDocument.parse(content).error;
+		if (frontmatterError) {
+			console.error(
+				`Invalid frontmatter in ${file.path}:`,
+				frontmatterError
+			);
 			new Notice(
-				"Please configure the START page export path in settings"
+				`Not unpublished: the frontmatter of ${file.name} can't be read. Fix it and try again.`
 			);
 			return;
 		}
 
-		// Get file content
-		const content = editor.getDoc().getValue();
+		const removed: string[] = [];
+		let failed = false;
 
-		// Convert Obsidian internal links to markdown links with obsidian:// URLs
-		const processedContent = content.replace(
-			/\[\[(.*?)\]\]/g,
-			(match, linkText) => {
-				const encodedPath = encodeURIComponent(linkText);
-				return `[${linkText}](obsidian://open?vault=jonbo-notes-site-sync&file=${encodedPath})`;
+		try {
+			if (await this.notesSitePublisher.unpublish(file, content)) {
+				removed.push("notes.site post");
 			}
-		);
-
-		// Initialize markdown-it with options
-		const md = markdownit({
-			html: true,
-			breaks: true,
-			linkify: true,
-		});
+		} catch (error) {
+			console.error("Error unpublishing from notes.site:", error);
+			failed = true;
+		}
 
-		// Custom renderer for internal links
-		md.renderer.rules.link_open = (
-			tokens: Token[],
-			idx: number,
-			options: markdownit.Options,
-			env: any,
-			self: any
-		) => {
-			const token = tokens[idx];
-			const hrefIndex = token.attrIndex("href");
-			if (hrefIndex >= 0) {
-				const href = token.attrs![hrefIndex][1];
-				// Add style attribute for dotted underline with transition
-				token.attrPush([
-					"style",
-					"text-decoration: none; border-bottom: 1px solid rgba(128, 128, 128, 0.6);",
-				]);
-				token.attrPush([
-					"onmouseover",
-					`this.style.borderBottom = '2px dotted rgba(128, 128, 128, 0.6)';`,
-				]);
-				token.attrPush([
-					"onmouseout",
-					`this.style.borderBottom = '1px solid rgba(128, 128, 128, 0.6)';`,
-				]);
-				if (href && href.startsWith("[[") && href.endsWith("]]")) {
-					// Extract the link text
-					const linkText = href.slice(2, -2);
-					// Create obsidian URI
-					const obsidianUri = `obsidian://open?vault=jonbo-notes-site-sync&file=${encodeURIComponent(
-						linkText
-					)}`;
-					// Set the href attribute
-					token.attrs![hrefIndex][1] = obsidianUri;
-				}
+		const profile = this.hugoExporter.resolveProfile(content);
+		if (profile) {
+			try {
+				const files = await this.hugoExporter.unexportNote(
+					file,
+					content,
+					profile
+				);
+				removed.push(...files);
+			} catch (error) {
+				console.error("Error removing Hugo export:", error);
+				failed = true;
 			}
-			return self.renderToken(tokens, idx, options);
-		};
-
-		// Convert markdown to HTML
-		let html = md.render(processedContent);
-
-		// Add basic styling
-		html = `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="UTF-8">
-    <title>START</title>
-    <style>
-        :root {
-            color-scheme: light dark;
-        }
-
-		.progress-bar {
-			position: fixed;
-			top: 0;
-			left: 0;
-			height: 1.5px;
-			background-color: rgba(147, 112, 219, 0.6);
-			width: 0%;
-			transition: width 100ms cubic-bezier(0.4, 0, 0.2, 1);
-			z-index: 1000;
-		}
-
-		.progress-toggle {
-			position: fixed;
-			bottom: 20px;
-			left: 20px;
-			padding: 8px 12px;
-			background-color: rgba(147, 112, 219, 0.1);
-			border: 1px solid rgba(147, 112, 219, 0.2);
-			border-radius: 4px;
-			color: rgba(147, 112, 219, 0.8);
-			cursor: pointer;
-			font-size: 12px;
-			transition: all 0.2s ease;
-			z-index: 1000;
-		}
-
-		.progress-toggle:hover {
-			background-color: rgba(147, 112, 219, 0.2);
-		}
-
-		img[src*="weather.cgi"] {
-			filter: brightness(0.82) invert(0.92);
-			display: block;
-			margin: 0 auto;
-			width: 50%;
-		}
-
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
-            line-height: 1.6;
-            max-width: 800px;
-            margin: 0 auto;
-            padding: 2rem;
-            background-color: white;
-            color: #2e3338;
-        }
-
-        a { 
-            color: #4A6EE0;
-            text-decoration: none;
-        }
-
-        a:hover {
-            text-decoration: underline;
-        }
-
-        /* Obsidian-like dark theme */
-        @media (prefers-color-scheme: dark) {
-            body {
-                background-color: #202020;
-                color: #dcddde;
-            }
-
-            a {
-                color: #7f6df2;
-            }
-
-            /* Code blocks */
-            pre {
-                background-color: #2d2d2d;
-                padding: 1em;
-                border-radius: 4px;
-            }
-
-            code {
-                background-color: #2d2d2d;
-                padding: 0.2em 0.4em;
-                border-radius: 3px;
-            }
-
-            /* Blockquotes */
-            blockquote {
-                border-left: 4px solid #4a4a4a;
-                margin: 1em 0;
-                padding-left: 1em;
-                color: #999;
-            }
-
-            /* Horizontal rules */
-            hr {
-                border: none;
-                border-top: 1px solid #4a4a4a;
-            }
-
-            /* Tables */
-            table {
-                border-collapse: collapse;
-                margin: 1em 0;
-            }
-
-            th, td {
-                border: 1px solid #4a4a4a;
-                padding: 0.5em 1em;
-            }
-
-            th {
-                background-color: #2d2d2d;
-            }
-
-            /* Lists */
-            ul, ol {
-                padding-left: 2em;
-            }
-
-            /* Task lists */
-            input[type="checkbox"] {
-                margin-right: 0.5em;
-            }
-        </style>
-	<script>
-		// Progress bar animation
-		document.addEventListener('DOMContentLoaded', () => {
-			const progressBar = document.createElement('div');
-			progressBar.className = 'progress-bar';
-			document.body.appendChild(progressBar);
-
-			const toggle = document.createElement('button');
-			toggle.className = 'progress-toggle';
-			toggle.textContent = 'breath timer';
-			document.body.appendChild(toggle);
-
-			let enabled = localStorage.getItem('progressEnabled') === 'true';
-			let animation = null;
-
-			const updateProgressBar = () => {
-				if (enabled) {
-					startAnimation();
-				} else {
-					stopAnimation();
-				}
-			};
-
-			const startAnimation = () => {
-				if (animation) return;
-
-				const duration = 5500;
-				const startTime = Date.now();
-
-				const animate = () => {
-					const elapsed = (Date.now() - startTime) % (duration * 2);
-					const halfCycle = elapsed < duration;
-					let progress = (elapsed % duration) / duration;
-
-					// Smooth out the transitions by adjusting the progress curve
-					if (halfCycle) {
-						// Ease in more gradually at the start
-						progress = progress * 0.97 + 0.03;
-					} else {
-						// Keep the smooth transition on the way down
-						progress = 1 - progress;
-					}
-
-					// Apply enhanced easing for more pronounced breathing effect
-					const easeProgress = easeInOutQuint(progress);
-					progressBar.style.width = \`\${easeProgress * 100}%\`;
-					animation = requestAnimationFrame(animate);
-				};
-
-				animation = requestAnimationFrame(animate);
-			};
-
-			const stopAnimation = () => {
-				if (animation) {
-					cancelAnimationFrame(animation);
-					animation = null;
-				}
-				progressBar.style.width = '0%';
-			};
-
-			// Enhanced easing function for steeper edges and slower middle
-			const easeInOutQuint = (x) => {
-				return x < 0.5
-					? 16 * x * x * x * x * x
-					: 1 - Math.pow(-2 * x + 2, 5) / 2;
-			};
-
-			toggle.addEventListener('click', () => {
-				enabled = !enabled;
-				localStorage.setItem('progressEnabled', enabled);
-				updateProgressBar();
-			});
+		}
 
-			// Initialize state
-			updateProgressBar();
-		});
-	</script>
-</head>
-<body>
-    ${html}
-</body>
-</html>`;
+		if (failed) {
+			new Notice("Failed to unpublish. Check console for details.");
+			return;
+		}
 
 		try {
-			// Remove any literal backslashes from the path
-			const cleanPath = this.settings.startPageExportPath.replace(
-				/\\/g,
-				""
+			await updateFrontmatter(this.app, file, (doc) =>
+				removeFrontmatterTag(doc, "publish")
 			);
-
-			// Write the file
-			await fs.writeFile(cleanPath, html, "utf8");
-			new Notice("START page exported successfully");
 		} catch (error) {
-			console.error("Error exporting START page:", error);
+			console.error("Error removing #publish tag:", error);
 			new Notice(
-				"Error exporting START page. Check console for details."
+				`Failed to remove the #publish tag from ${file.name}, the next export will publish it again. Check console for details.`
 			);
+			return;
 		}
+		new Notice(
+			removed.length
+				? `Unpublished:\n${removed.join("\n")}`
+				: "Nothing was published, removed #publish tag"
+		);
 	}
 
-	private addMobileScrollButton() {
-		// Only proceed if we're on mobile
-		// if (!this.app.isMobile) return;
+	private async exportAllToHugo() {
+		const results: HugoExportResult[] = [];
+		const failedSources: string[] = [];
+		// Notes whose tags couldn't be read keep what they exported before
+		const unreadableTags: string[] = [];
+		let skipped = 0;
+
+		// Everything this run exports, per profile, so links between notes
+		// exported together resolve even on a repo's first export
+		const queued: {
+			file: TFile;
+			content: string;
+			profile: ExportProfile;
+		}[] = [];
+		const exported = new Map<ExportProfile, Set<string>>();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const content = await this.app.vault.read(file);
+
+			// Counted as failed so what it exported before is kept
+			const frontmatterError = FrontmatterDocument.parse(content).error;
+			if (frontmatterError) {
+				console.error(
+					`Invalid frontmatter in ${file.path}:`,
+					frontmatterError
+				);
+				failedSources.push(file.path);
+				continue;
+			}
+			const frontmatter = this.getFrontmatter(content);
+			if (hasUnreadableTags(frontmatter)) {
+				console.error(`Tags in ${file.path} are empty or unreadable`);
+				unreadableTags.push(file.path);
+				continue;
+			}
+			if (!this.isPublishable(frontmatter)) continue;
 
-		// Find the mobile toolbar
-		const mobileToolbar = document.querySelector(".mobile-toolbar");
-		if (!mobileToolbar) return;
+			const profile = this.hugoExporter.resolveProfile(content);
+			if (!profile) {
+				console.log(`No export profile for ${file.path}, skipping`);
+				skipped++;
+				continue;
+			}
 
-		// Remove existing button if it exists
-		const existingButton = mobileToolbar.querySelector(
-			".scroll-to-bottom-button"
-		);
-		if (existingButton) {
-			existingButton.remove();
+			queued.push({ file, content, profile });
+			const paths = exported.get(profile) ?? new Set<string>();
+			exported.set(profile, paths.add(file.path));
 		}
 
-		// Create the button
-		const button = mobileToolbar.createEl("div", {
-			cls: ["mobile-toolbar-button", "scroll-to-bottom-button"],
-			attr: {
-				"aria-label": "Scroll to Bottom",
-			},
-		});
+		for (const { file, content, profile } of queued) {
+			try {
+				const result = await this.hugoExporter.exportNote(
+					file,
+					content,
+					profile,
+					exported.get(profile)
+				);
+				if (result) results.push(result);
+			} catch (error) {
+				console.error(`Error exporting ${file.path}:`, error);
+				failedSources.push(file.path);
+			}
+		}
 
-		// Add icon (using Obsidian's down-arrow icon)
-		button.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon"><line x1="12" y1="5" x2="12" y2="19"></line><polyline points="19 12 12 19 5 12"></polyline></svg>`;
+		// Reconcile every configured repo, including ones with nothing left in them
+		for (const profile of this.settings.exportProfiles) {
+			if (!profile.repoRoot) continue;
 
-		// Add click handler
-		button.addEventListener("click", () => {
-			const activeLeaf = this.app.workspace.activeLeaf;
-			if (activeLeaf?.view instanceof MarkdownView) {
-				const editor = activeLeaf.view.editor;
-				const lastLine = editor.lastLine();
-				editor.scrollIntoView(
-					{
-						from: { line: lastLine, ch: 0 },
-						to: { line: lastLine, ch: 0 },
-					},
-					true
-				);
+			const previous = await readManifest(profile);
+			const current = buildManifest(
+				profile,
+				results.filter((result) => result.profile === profile)
+			);
+
+			// A note that failed this run still owns what it exported last time
+			for (const sourcePath of failedSources.concat(unreadableTags)) {
+				if (previous.notes[sourcePath]) {
+					current.notes[sourcePath] = previous.notes[sourcePath];
+				}
 			}
-		});
-	}
 
-	private addMobileDotModeButton() {
-		// Find the mobile toolbar
-		const mobileToolbar = document.querySelector(".mobile-toolbar");
-		if (!mobileToolbar) return;
+			const orphans = findOrphans(previous, current);
+			if (orphans.contentFiles.length || orphans.images.length) {
+				const confirmed = await this.confirm({
+					title: `Clean up ${profile.name}`,
+					message:
+						"These files were exported from notes that are no longer published. Delete them?",
+					items: [...orphans.contentFiles, ...orphans.images],
+					confirmText: "Delete",
+				});
 
-		// Remove existing button if it exists
-		const existingButton = mobileToolbar.querySelector(".dot-mode-button");
-		if (existingButton) {
-			existingButton.remove();
+				if (confirmed) {
+					await deleteOrphans(profile, orphans);
+				} else {
+					// Keep tracking them so the next run offers them again
+					keepOrphans(previous, current, orphans);
+				}
+			}
+
+			try {
+				await writeManifest(profile, current);
+			} catch (error) {
+				console.error(
+					`Error writing manifest for ${profile.name}:`,
+					error
+				);
+			}
 		}
 
-		// Create the button
-		const button = mobileToolbar.createEl("div", {
-			cls: ["mobile-toolbar-button", "dot-mode-button"],
-			attr: {
-				"aria-label": "Toggle Dot Mode",
-			},
-		});
+		this.feeds.scheduleUpdate();
 
-		// Add icon (using Obsidian's eye icon)
+		let message = `Exported ${results.length} notes to Hugo`;
+		if (skipped) message += `, ${skipped} skipped without a profile`;
+		if (unreadableTags.length) {
+			message += `, ${unreadableTags.length} left as they were with empty or unreadable tags`;
+		}
+		if (failedSources.length) {
+			message += `, ${failedSources.length} failed. Check console for details.`;
+		}
+		new Notice(message);
+
+		this.reportDowngradedLinks(
+			results.reduce<string[]>(
+				(links, result) => links.concat(result.downgradedLinks),
+				[]
+			)
+		);
+	}
+
+	private reportDowngradedLinks(links: string[]) {
+		if (links.length === 0) return;
+
+		console.log(
+			"Links to unpublished notes exported as plain text:",
+			links
+		);
+		const shown = links.slice(0, 10).join("\n");
+		const more =
+			links.length > 10 ? `\n…and ${links.length - 10} more` : "";
+		new Notice(
+			`${links.length} links to unpublished notes were exported as plain text:\n${shown}${more}`,
+			10000
+		);
+	}
+
+	// Track a single-note export in the repo manifest without any cleanup
+	// What an earlier export of the note wrote and this one didn't, say after
+	// its section or date changed, is offered for deletion with
+	// `offerCleanup`. Otherwise it stays in the manifest for the next bulk
+	// export to clean up.
+	async recordHugoExport(result: HugoExportResult, offerCleanup = false) {
+		const { profile } = result;
+		const previous = await readManifest(profile);
+		const current: ExportManifest = {
+			notes: {
+				...previous.notes,
+				...buildManifest(profile, [result]).notes,
+			},
+		};
+
+		const orphans = findOrphans(previous, current);
+		if (orphans.contentFiles.length || orphans.images.length) {
+			const confirmed =
+				offerCleanup &&
+				(await this.confirm({
+					title: `Clean up ${profile.name}`,
+					message: `These files were written by an earlier export of ${result.sourcePath} and nothing uses them now. Delete them?`,
+					items: [...orphans.contentFiles, ...orphans.images],
+					confirmText: "Delete",
+				}));
+			if (confirmed) {
+				await deleteOrphans(profile, orphans);
+			} else {
+				keepOrphans(previous, current, orphans);
+			}
+		}
+
+		try {
+			await writeManifest(profile, current);
+		} catch (error) {
+			console.error("Error writing export manifest:", error);
+		}
+	}
+
+	// Export one note to its Hugo profile. With `preview`, the dry run's diff
+	// and image list are shown and nothing is written until confirmed.
+	async exportToHugo(file: TFile, content: string, preview: boolean) {
+		const profile = this.hugoExporter.resolveProfile(content);
+		if (!profile) {
+			const name = this.getFrontmatterString(
+				this.getFrontmatter(content),
+				"export_profile"
+			);
+			new Notice(
+				name
+					? `No export profile named "${name}", check export_profile in the note`
+					: "Please configure a Hugo export profile in settings"
+			);
+			return;
+		}
+
+		const validation = await this.validator.validate(file, content, "hugo");
+		if (!(await this.confirmValidation(validation))) return;
+
+		try {
+			const dryRun = await this.hugoExporter.dryRun(
+				file,
+				content,
+				profile
+			);
+			if (!dryRun) return;
+			if (preview && !(await this.confirmHugoDryRun(dryRun))) return;
+
+			const result = await this.hugoExporter.applyDryRun(dryRun);
+			await this.recordHugoExport(result, true);
+			await this.autoPublisher.recordPublished(file, content, "hugo");
+			this.feeds.scheduleUpdate();
+			new Notice("File and images exported successfully.");
+			this.reportDowngradedLinks(result.downgradedLinks);
+		} catch (error) {
+			console.error("Error writing file:", error);
+			new Notice("Failed to write file. Check console for details.");
+		}
+	}
+
+	confirmHugoDryRun(dryRun: HugoDryRun): Promise<boolean> {
+		return new Promise((resolve) => {
+			new HugoDryRunModal(
+				this.app,
+				dryRun,
+				() => resolve(true),
+				() => resolve(false)
+			).open();
+		});
+	}
+
+	confirmValidation(result: ValidationResult): Promise<boolean> {
+		if (result.issues.length === 0) return Promise.resolve(true);
+
+		return new Promise((resolve) => {
+			new ValidationModal(
+				this.app,
+				result,
+				() => resolve(true),
+				() => resolve(false)
+			).open();
+		});
+	}
+
+	confirm(options: Omit<ConfirmModalOptions, "onConfirm">): Promise<boolean> {
+		return new Promise((resolve) => {
+			new ConfirmModal(this.app, {
+				...options,
+				onConfirm: () => resolve(true),
+				onCancel: () => resolve(false),
+			}).open();
+		});
+	}
+
+	// Dashboards whose note resolves to this file
+	getDashboardsForFile(file: TFile): Dashboard[] {
+		return this.settings.dashboards.filter(
+			(dashboard) =>
+				dashboard.outputPath &&
+				this.resolveDashboardNote(dashboard)?.path === file.path
+		);
+	}
+
+	private resolveDashboardNote(dashboard: Dashboard): TFile | null {
+		if (!dashboard.note) return null;
+		return this.app.metadataCache.getFirstLinkpathDest(
+			dashboard.note.replace(/\.md$/, ""),
+			""
+		);
+	}
+
+	private async exportAllDashboards() {
+		let exported = 0;
+		for (const dashboard of this.settings.dashboards) {
+			const file = this.resolveDashboardNote(dashboard);
+			if (!file || !dashboard.outputPath) {
+				new Notice(`Dashboard note not found: ${dashboard.note}`);
+				continue;
+			}
+
+			const content = await this.app.vault.read(file);
+			if (await this.exportDashboardHtml(dashboard, file, content)) {
+				exported++;
+			}
+		}
+		new Notice(`Exported ${exported} dashboard pages`);
+	}
+
+	private async exportDashboardHtml(
+		dashboard: Dashboard,
+		file: TFile,
+		content: string
+	): Promise<boolean> {
+		// Inline embedded notes, the dashboard is mostly built from them
+		const expanded = await expandTransclusions(
+			this.app,
+			content,
+			file.path
+		);
+
+		const redacted = this.redact(expanded.content);
+
+		// Convert Obsidian internal links to markdown links, pointing wherever
+		// this dashboard's links are set to go
+		let publishedUrls = new Map<string, string | null>();
+		if (dashboard.linkTarget === "published") {
+			publishedUrls = await this.linkTargets.getPublishedUrls(
+				redacted.content,
+				file.path
+			);
+		}
+		const resolveHref = (link: Wikilink) =>
+			this.linkTargets.getHref(
+				link,
+				file.path,
+				dashboard.linkTarget,
+				dashboard.outputPath,
+				publishedUrls
+			);
+		const processedContent = replaceWikilinks(redacted.content, (link) => {
+			const text = getLinkDisplayText(link);
+			const href = resolveHref(link);
+			return href ? `[${text}](${href})` : text;
+		});
+
+		const md = createMarkdownRenderer({ resolveWikilink: resolveHref });
+
+		// Convert markdown to HTML, leaving frontmatter to the template
+		let html = md.render(FrontmatterDocument.parse(processedContent).body);
+
+		// Wrap the rendered note in its page template
+		try {
+			html = await this.templates.renderPage(
+				file,
+				redacted.content,
+				html,
+				this.getFrontmatterString(
+					this.getFrontmatter(content),
+					"template"
+				)
+			);
+		} catch (error) {
+			console.error(`Error rendering ${file.basename} template:`, error);
+			new Notice(
+				`Error rendering ${file.basename} template: ${error.message}`
+			);
+			return false;
+		}
+
+		try {
+			// Remove any literal backslashes from the path
+			const cleanPath = dashboard.outputPath.replace(/\\/g, "");
+
+			// Write the file
+			await fs.writeFile(cleanPath, html, "utf8");
+			new Notice(`${file.basename} exported successfully`);
+			return true;
+		} catch (error) {
+			console.error(`Error exporting ${file.basename}:`, error);
+			new Notice(
+				`Error exporting ${file.basename}. Check console for details.`
+			);
+			return false;
+		}
+	}
+
+	private async buildStaticSite() {
+		const { staticSiteFolder, staticSiteTag, staticSiteOutputDir } =
+			this.settings;
+		if (!staticSiteOutputDir || (!staticSiteFolder && !staticSiteTag)) {
+			new Notice(
+				"Please configure the static site folder or tag and output directory in settings"
+			);
+			return;
+		}
+
+		try {
+			const result = await this.siteGenerator.build();
+			new Notice(
+				`Built static site: ${result.pages} pages, ${result.tagPages} tag pages, ${result.assets} attachments`
+			);
+			const { invalidNotes } = result;
+			if (invalidNotes.length) {
+				const list = invalidNotes.join("\n");
+				new Notice(
+					`Skipped ${invalidNotes.length} notes with invalid frontmatter:\n${list}`,
+					10000
+				);
+			}
+		} catch (error) {
+			console.error("Error building static site:", error);
+			new Notice(
+				`Error building static site: ${error.message}. Check console for details.`
+			);
+		}
+	}
+
+	// Copy the built-in page template into the template folder to edit
+	private async createDefaultTemplate() {
+		const folder = this.settings.templateFolder;
+		if (!folder) {
+			new Notice("Please configure the template folder in settings");
+			return;
+		}
+
+		const path = normalizePath(`${folder}/default.html`);
+		if (this.app.vault.getAbstractFileByPath(path)) {
+			new Notice(`${path} already exists`);
+			return;
+		}
+
+		if (!this.app.vault.getAbstractFileByPath(normalizePath(folder))) {
+			await this.app.vault.createFolder(folder);
+		}
+		await this.app.vault.create(path, DEFAULT_TEMPLATE);
+		new Notice(`Created ${path}`);
+	}
+
+	private addMobileScrollButton() {
+		// Only proceed if we're on mobile
+		// if (!this.app.isMobile) return;
+
+		// Find the mobile toolbar
+		const mobileToolbar = document.querySelector(".mobile-toolbar");
+		if (!mobileToolbar) return;
+
+		// Remove existing button if it exists
+		const existingButton = mobileToolbar.querySelector(
+			".scroll-to-bottom-button"
+		);
+		if (existingButton) {
+			existingButton.remove();
+		}
+
+		// Create the button
+		const button = mobileToolbar.createEl("div", {
+			cls: ["mobile-toolbar-button", "scroll-to-bottom-button"],
+			attr: {
+				"aria-label": "Scroll to Bottom",
+			},
+		});
+
+		// Add icon (using Obsidian's down-arrow icon)
+		button.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon"><line x1="12" y1="5" x2="12" y2="19"></line><polyline points="19 12 12 19 5 12"></polyline></svg>`;
+
+		// Add click handler
+		button.addEventListener("click", () => {
+			const activeLeaf = this.app.workspace.activeLeaf;
+			if (activeLeaf?.view instanceof MarkdownView) {
+				const editor = activeLeaf.view.editor;
+				const lastLine = editor.lastLine();
+				editor.scrollIntoView(
+					{
+						from: { line: lastLine, ch: 0 },
+						to: { line: lastLine, ch: 0 },
+					},
+					true
+				);
+			}
+		});
+	}
+
+	private addMobileDotModeButton() {
+		// Find the mobile toolbar
+		const mobileToolbar = document.querySelector(".mobile-toolbar");
+		if (!mobileToolbar) return;
+
+		// Remove existing button if it exists
+		const existingButton = mobileToolbar.querySelector(".dot-mode-button");
+		if (existingButton) {
+			existingButton.remove();
+		}
+
+		// Create the button
+		const button = mobileToolbar.createEl("div", {
+			cls: ["mobile-toolbar-button", "dot-mode-button"],
+			attr: {
+				"aria-label": "Toggle Dot Mode",
+			},
+		});
+
+		// Add icon (using Obsidian's eye icon)
 		button.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="svg-icon"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path><circle cx="12" cy="12" r="3"></circle></svg>`;
 
 		// Add click handler
@@ -783,39 +1124,40 @@ export default class MyPlugin extends Plugin {
 	}
 
 	getFrontmatter(content: string): Frontmatter | null {
-		const frontmatterRegex = /^---\n([\s\S]*?)\n---/;
-		const match = content.match(frontmatterRegex);
-		if (!match) return null;
-
-		const frontmatter: Frontmatter = {};
-		const lines = match[1].split("\n");
-		let currentKey = "";
-
-		for (const line of lines) {
-			if (line.includes(":")) {
-				const [key, ...valueParts] = line.split(":");
-				currentKey = key.trim();
-				const value = valueParts.join(":").trim();
-
-				if (value.startsWith("[") && value.endsWith("]")) {
-					frontmatter[currentKey] = value
-						.slice(1, -1)
-						.split(",")
-						.map((s) => s.trim());
-				} else {
-					frontmatter[currentKey] = value;
-				}
-			} else if (line.trim().startsWith("-") && currentKey) {
-				if (!Array.isArray(frontmatter[currentKey])) {
-					frontmatter[currentKey] = [];
-				}
-				(frontmatter[currentKey] as string[]).push(
-					line.trim().slice(1).trim()
-				);
-			}
-		}
+		return getFrontmatter(content);
+	}
+
+	isDailyNote(filename: string): boolean {
+		const date = filename.split(".")[0];
+		return /^\d{4}-\d{2}-\d{2}$/.test(date);
+	}
+
+	isPublishable(frontmatter: Frontmatter | null): boolean {
+		return getFrontmatterTags(frontmatter).includes("publish");
+	}
+
+	// Absolute path of a vault file on disk
+	getVaultFilePath(file: TFile): string {
+		const vaultPath = (this.app.vault.adapter as any).basePath;
+		return `${vaultPath}/${file.path}`;
+	}
+
+	// Take out everything the redaction settings say must stay in the vault
+	redact(content: string): RedactionResult {
+		return redactContent(content, {
+			stripComments: this.settings.redactComments,
+			headings: this.settings.redactHeadings,
+			tags: this.settings.privateTags,
+			frontmatterAllowlist: this.settings.frontmatterAllowlist,
+		});
+	}
 
-		return frontmatter;
+	getFrontmatterString(
+		frontmatter: Frontmatter | null,
+		key: string
+	): string | undefined {
+		const value = frontmatter?.[key];
+		return typeof value === "string" && value ? value : undefined;
 	}
 
 	async fileExistsWithSameSize(
@@ -834,11 +1176,39 @@ export default class MyPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData()
+		const { startPageExportPath, ...data } = (await this.loadData()) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+		// Older versions exported a single START page
+		if (startPageExportPath && !data.dashboards) {
+			this.settings.dashboards = [
+				{
+					note: "START",
+					outputPath: startPageExportPath,
+					linkTarget: "obsidian",
+				},
+			];
+		}
+
+		// Dashboards from before link targets kept obsidian:// links
+		this.settings.dashboards = this.settings.dashboards.map(
+			(dashboard) => ({
+				...dashboard,
+				linkTarget: dashboard.linkTarget ?? "obsidian",
+			})
 		);
+
+		// Jekyll and Eleventy profiles used to keep Hugo's "/" URL prefix
+		// for their assets dir, which those generators serve at /assets
+		for (const profile of this.settings.exportProfiles) {
+			const adapter = getSsgAdapter(profile.adapter ?? "hugo");
+			if (
+				profile.staticDir === adapter.staticDir &&
+				profile.staticUrlPrefix === "/"
+			) {
+				profile.staticUrlPrefix = adapter.staticUrlPrefix;
+			}
+		}
 	}
 
 	async saveSettings() {
@@ -851,30 +1221,10 @@ export default class MyPlugin extends Plugin {
 		this.settings.dotModeEnabled = !this.settings.dotModeEnabled;
 
 		// Force refresh of all views
-		this.app.workspace.iterateAllLeaves((leaf) => {
-			if (leaf.view instanceof MarkdownView) {
-				// Force editor to update decorations by simulating a change
-				const editorView = (leaf.view.editor as any).cm as EditorView;
-				const doc = editorView.state.doc;
-				editorView.dispatch({
-					changes: {
-						from: 0,
-						to: doc.length,
-						insert: doc.sliceString(0, doc.length),
-					},
-				});
-
-				// Rerender preview if in preview mode
-				if (leaf.view.getMode() === "preview") {
-					leaf.view.previewMode.rerender(true);
-				}
-			}
-		});
+		this.dotMode.refresh(true);
 
 		// Update UI elements
-		const rootEl = document.body;
 		if (this.settings.dotModeEnabled) {
-			rootEl.classList.add("dot-mode-enabled");
 			new Notice("Dot mode enabled");
 
 			if (this.dotModeRibbonIcon) {
@@ -886,7 +1236,6 @@ export default class MyPlugin extends Plugin {
 				mobileButton.addClass("is-active");
 			}
 		} else {
-			rootEl.classList.remove("dot-mode-enabled");
 			new Notice("Dot mode disabled");
 
 			if (this.dotModeRibbonIcon) {
@@ -904,25 +1253,15 @@ export default class MyPlugin extends Plugin {
 	}
 
 	private applyDotMode(element: HTMLElement) {
+		const punctuation = splitGraphemes(this.settings.dotModePunctuation);
+
+		// Reading view has no cursor, so the hovered word, sentence or
+		// block is revealed instead
+		element.addClass(`dot-mode-reveal-${this.settings.dotModeReveal}`);
+
 		const textNodes = this.getTextNodes(element);
 		textNodes.forEach((node) => {
-			const span = document.createElement("span");
-			span.classList.add("dot-mode-text");
-
-			// Create a separate span for each character
-			const text = node.textContent || "";
-			text.split("").forEach((char) => {
-				const charSpan = document.createElement("span");
-				if (char === " ") {
-					charSpan.classList.add("dot-mode-space");
-					charSpan.textContent = char;
-				} else {
-					charSpan.classList.add("dot-mode-char");
-					charSpan.textContent = char;
-				}
-				span.appendChild(charSpan);
-			});
-
+			const span = renderDotModeText(node.textContent || "", punctuation);
 			node.parentNode?.replaceChild(span, node);
 		});
 	}
@@ -951,10 +1290,12 @@ export default class MyPlugin extends Plugin {
 	}
 
 	onunload() {
-		// Clean up dot mode if enabled
-		if (this.settings.dotModeEnabled) {
-			document.body.classList.remove("dot-mode-enabled");
-		}
+		this.autoPublisher.cancelAll();
+		this.dashboardTimers.forEach((timer) => window.clearTimeout(timer));
+		this.feeds.cancel();
+
+		// Clean up dot mode in every leaf it was applied to
+		this.dotMode.detach();
 
 		// Remove mobile dot mode button if it exists
 		const mobileButton = document.querySelector(".dot-mode-button");
@@ -976,27 +1317,696 @@ class MyPluginSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
+		containerEl.createEl("h3", { text: "Dot Mode" });
+
+		new Setting(containerEl)
+			.setName("Reveal")
+			.setDesc(
+				"What stays readable around the cursor, or under the pointer in reading view"
+			)
+			.addDropdown((dropdown) => {
+				let reveal: DotModeReveal;
+				for (reveal in DOT_MODE_REVEALS) {
+					dropdown.addOption(reveal, DOT_MODE_REVEALS[reveal]);
+				}
+				dropdown
+					.setValue(this.plugin.settings.dotModeReveal)
+					.onChange(async (value) => {
+						this.plugin.settings.dotModeReveal =
+							value as DotModeReveal;
+						await this.plugin.saveSettings();
+						this.plugin.dotMode.refresh(true);
+					});
+			});
+
 		new Setting(containerEl)
-			.setName("START Page Export Path")
-			.setDesc("Path where the START page HTML will be exported")
+			.setName("Revealed Characters")
+			.setDesc(
+				'How many characters before the cursor "Last characters typed" reveals'
+			)
 			.addText((text) =>
 				text
-					.setPlaceholder("/path/to/export/start.html")
-					.setValue(this.plugin.settings.startPageExportPath)
+					.setPlaceholder("10")
+					.setValue(String(this.plugin.settings.dotModeRevealChars))
 					.onChange(async (value) => {
-						this.plugin.settings.startPageExportPath = value;
+						const chars = parseInt(value, 10);
+						if (isNaN(chars) || chars < 0) return;
+						this.plugin.settings.dotModeRevealChars = chars;
 						await this.plugin.saveSettings();
+						this.plugin.dotMode.refresh(true);
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Progress Bar")
-			.setDesc("Enable or disable the progress bar")
+			.setName("Visible Punctuation")
+			.setDesc("Characters that are never hidden")
+			.addText((text) =>
+				text
+					.setPlaceholder(DOT_MODE_PUNCTUATION)
+					.setValue(this.plugin.settings.dotModePunctuation)
+					.onChange(async (value) => {
+						this.plugin.settings.dotModePunctuation = value;
+						await this.plugin.saveSettings();
+						this.plugin.dotMode.refresh(true);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Private Notes")
+			.setDesc(
+				"Turn dot mode on for notes with private: true in their frontmatter"
+			)
 			.addToggle((toggle) =>
 				toggle
-					.setValue(this.plugin.settings.progressBarEnabled)
+					.setValue(this.plugin.settings.dotModePrivateNotes)
 					.onChange(async (value) => {
-						this.plugin.settings.progressBarEnabled = value;
+						this.plugin.settings.dotModePrivateNotes = value;
+						await this.plugin.saveSettings();
+						this.plugin.dotMode.refresh(true);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Dot Mode Folders")
+			.setDesc(
+				"Notes in these folders always open in dot mode, one folder per line"
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Journal\nPeople")
+					.setValue(this.plugin.settings.dotModeFolders.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.dotModeFolders =
+							parseFolderList(value);
+						await this.plugin.saveSettings();
+						this.plugin.dotMode.refresh(true);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Idle Timeout")
+			.setDesc(
+				"Minutes without keyboard or mouse input before every note switches to dot mode, 0 to never"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.dotModeIdleMinutes))
+					.onChange(async (value) => {
+						const minutes = parseFloat(value);
+						if (isNaN(minutes) || minutes < 0) return;
+						this.plugin.settings.dotModeIdleMinutes = minutes;
+						await this.plugin.saveSettings();
+						this.plugin.dotMode.refresh(true);
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Dashboard Pages" });
+
+		this.plugin.settings.dashboards.forEach((dashboard, index) => {
+			new Setting(containerEl)
+				.setName("Dashboard")
+				.setDesc(
+					"Vault note, the HTML file it is exported to and where its links point"
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("START")
+						.setValue(dashboard.note)
+						.onChange(async (value) => {
+							dashboard.note = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("/path/to/export/start.html")
+						.setValue(dashboard.outputPath)
+						.onChange(async (value) => {
+							dashboard.outputPath = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addDropdown((dropdown) => {
+					let mode: LinkTargetMode;
+					for (mode in LINK_TARGET_MODES) {
+						dropdown.addOption(mode, LINK_TARGET_MODES[mode]);
+					}
+					dropdown
+						.setValue(dashboard.linkTarget)
+						.onChange(async (value) => {
+							dashboard.linkTarget = value as LinkTargetMode;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove dashboard")
+						.onClick(async () => {
+							this.plugin.settings.dashboards.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add Dashboard").onClick(async () => {
+				this.plugin.settings.dashboards.push({
+					note: "",
+					outputPath: "",
+					linkTarget: "obsidian",
+				});
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+
+		new Setting(containerEl)
+			.setName("Template Folder")
+			.setDesc(
+				"Vault folder with HTML page templates, partials go in its partials/ folder"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/HTML")
+					.setValue(this.plugin.settings.templateFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.templateFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Progress Bar")
+			.setDesc("Enable or disable the progress bar")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.progressBarEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.progressBarEnabled = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("notes.site Endpoint")
+			.setDesc("Ingest URL that notes are published to")
+			.addText((text) =>
+				text
+					.setPlaceholder(NOTES_SITE_INGEST_URL)
+					.setValue(this.plugin.settings.notesSiteEndpoint)
+					.onChange(async (value) => {
+						this.plugin.settings.notesSiteEndpoint =
+							value || NOTES_SITE_INGEST_URL;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Private Tags")
+			.setDesc(
+				"Comma-separated tags. Tagged notes are flagged before publishing, tagged headings and blocks are redacted"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("private, draft")
+					.setValue(this.plugin.settings.privateTags.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.privateTags = value
+							.split(",")
+							.map((tag) => tag.trim().replace(/^#/, ""))
+							.filter((tag) => tag.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Redact Comments")
+			.setDesc("Strip %%comments%% from everything that is published")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.redactComments)
+					.onChange(async (value) => {
+						this.plugin.settings.redactComments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Private Headings")
+			.setDesc(
+				"Comma-separated headings whose sections are never published"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Private")
+					.setValue(this.plugin.settings.redactHeadings.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.redactHeadings = value
+							.split(",")
+							.map((heading) => heading.trim())
+							.filter((heading) => heading.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Frontmatter Allowlist")
+			.setDesc(
+				"Comma-separated frontmatter keys that are published, leave empty to publish all"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("title, date, tags, aliases")
+					.setValue(
+						this.plugin.settings.frontmatterAllowlist.join(", ")
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterAllowlist = value
+							.split(",")
+							.map((key) => key.trim())
+							.filter((key) => key.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-publish to notes.site")
+			.setDesc(
+				"Re-publish #publish notes after they change, unless they set autopublish: false"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoPublishNotesSite)
+					.onChange(async (value) => {
+						this.plugin.settings.autoPublishNotesSite = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-export to Hugo")
+			.setDesc(
+				"Re-export #publish notes after they change, unless they set autopublish: false"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoPublishHugo)
+					.onChange(async (value) => {
+						this.plugin.settings.autoPublishHugo = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-publish Delay")
+			.setDesc("Seconds to wait after the last edit before publishing")
+			.addText((text) =>
+				text
+					.setPlaceholder("30")
+					.setValue(String(this.plugin.settings.autoPublishDelay))
+					.onChange(async (value) => {
+						const delay = parseInt(value, 10);
+						if (!isNaN(delay) && delay > 0) {
+							this.plugin.settings.autoPublishDelay = delay;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Static Site" });
+
+		new Setting(containerEl)
+			.setName("Source Folder")
+			.setDesc("Vault folder whose notes are built into the site")
+			.addText((text) =>
+				text
+					.setPlaceholder("Notes/Public")
+					.setValue(this.plugin.settings.staticSiteFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.staticSiteFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Source Tag")
+			.setDesc("Notes with this tag are built into the site too")
+			.addText((text) =>
+				text
+					.setPlaceholder("publish")
+					.setValue(this.plugin.settings.staticSiteTag)
+					.onChange(async (value) => {
+						this.plugin.settings.staticSiteTag = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Output Directory")
+			.setDesc("Local directory the HTML site is written to")
+			.addText((text) =>
+				text
+					.setPlaceholder("/path/to/site")
+					.setValue(this.plugin.settings.staticSiteOutputDir)
+					.onChange(async (value) => {
+						this.plugin.settings.staticSiteOutputDir = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Feeds" });
+
+		new Setting(containerEl)
+			.setName("Feed Output Directory")
+			.setDesc(
+				"Where rss.xml, atom.xml and feed.json are written, e.g. the Hugo static/ folder"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("/path/to/hugo/site/static")
+					.setValue(this.plugin.settings.feedOutputDir)
+					.onChange(async (value) => {
+						this.plugin.settings.feedOutputDir = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Site URL")
+			.setDesc("Public URL the feeds and their items link to")
+			.addText((text) =>
+				text
+					.setPlaceholder("https://example.com")
+					.setValue(this.plugin.settings.feedSiteUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.feedSiteUrl = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Feed Title")
+			.setDesc("Defaults to the vault name")
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.feedTitle)
+					.onChange(async (value) => {
+						this.plugin.settings.feedTitle = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl).setName("Feed Description").addText((text) =>
+			text
+				.setValue(this.plugin.settings.feedDescription)
+				.onChange(async (value) => {
+					this.plugin.settings.feedDescription = value;
+					await this.plugin.saveSettings();
+				})
+		);
+
+		new Setting(containerEl).setName("Feed Author").addText((text) =>
+			text
+				.setValue(this.plugin.settings.feedAuthor)
+				.onChange(async (value) => {
+					this.plugin.settings.feedAuthor = value;
+					await this.plugin.saveSettings();
+				})
+		);
+
+		containerEl.createEl("h3", { text: "Hugo Export Profiles" });
+
+		new Setting(containerEl)
+			.setName("Default Profile")
+			.setDesc(
+				"Profile used when a note has no export_profile in its frontmatter"
+			)
+			.addDropdown((dropdown) => {
+				for (const profile of this.plugin.settings.exportProfiles) {
+					dropdown.addOption(profile.name, profile.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.defaultExportProfile)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultExportProfile = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Preview Before Export")
+			.setDesc(
+				"Show the changes and images an export would write, and wait for confirmation"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.previewHugoExport)
+					.onChange(async (value) => {
+						this.plugin.settings.previewHugoExport = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.plugin.settings.exportProfiles.forEach((profile, index) => {
+			this.displayExportProfile(containerEl, profile, index);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText("Add Profile").onClick(async () => {
+				this.plugin.settings.exportProfiles.push({
+					...DEFAULT_EXPORT_PROFILE,
+					name: `profile-${
+						this.plugin.settings.exportProfiles.length + 1
+					}`,
+				});
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private displayExportProfile(
+		containerEl: HTMLElement,
+		profile: ExportProfile,
+		index: number
+	) {
+		new Setting(containerEl)
+			.setName("Profile Name")
+			.setHeading()
+			.addText((text) =>
+				text.setValue(profile.name).onChange(async (value) => {
+					if (
+						this.plugin.settings.defaultExportProfile ===
+						profile.name
+					) {
+						this.plugin.settings.defaultExportProfile = value;
+					}
+					profile.name = value;
+					await this.plugin.saveSettings();
+				})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove profile")
+					.onClick(async () => {
+						this.plugin.settings.exportProfiles.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Site Generator")
+			.setDesc(
+				"Layout, frontmatter and templates to export for, notes can pick another with export_adapter"
+			)
+			.addDropdown((dropdown) => {
+				let kind: SsgAdapterKind;
+				for (kind in SSG_ADAPTER_KINDS) {
+					dropdown.addOption(kind, SSG_ADAPTER_KINDS[kind]);
+				}
+				dropdown
+					.setValue(profile.adapter ?? "hugo")
+					.onChange(async (value) => {
+						const previous = getSsgAdapter(
+							profile.adapter ?? "hugo"
+						);
+						const next = getSsgAdapter(value as SsgAdapterKind);
+						// Follow the generator's static dir and its URL unless
+						// they were changed
+						if (profile.staticDir === previous.staticDir) {
+							profile.staticDir = next.staticDir;
+						}
+						if (
+							profile.staticUrlPrefix === previous.staticUrlPrefix
+						) {
+							profile.staticUrlPrefix = next.staticUrlPrefix;
+						}
+						profile.adapter = next.kind;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Repo Root")
+			.setDesc("Path to the root of the site's checkout")
+			.addText((text) =>
+				text
+					.setPlaceholder("/path/to/hugo/site")
+					.setValue(profile.repoRoot)
+					.onChange(async (value) => {
+						profile.repoRoot = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Content Section")
+			.setDesc(
+				'Default section for exported notes, "/" for the root of the content folder'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("posts")
+					.setValue(profile.contentSection)
+					.onChange(async (value) => {
+						profile.contentSection = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Static Directory")
+			.setDesc("Directory in the repo that images are copied into")
+			.addText((text) =>
+				text
+					.setPlaceholder("static")
+					.setValue(profile.staticDir)
+					.onChange(async (value) => {
+						profile.staticDir = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Static URL Prefix")
+			.setDesc("URL prefix for copied images on the built site")
+			.addText((text) =>
+				text
+					.setPlaceholder("/")
+					.setValue(profile.staticUrlPrefix)
+					.onChange(async (value) => {
+						profile.staticUrlPrefix = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Site URL")
+			.setDesc(
+				"Base URL of the built site, used by dashboards that link to published notes"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("https://example.com")
+					.setValue(profile.siteUrl ?? "")
+					.onChange(async (value) => {
+						profile.siteUrl = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Max Image Width")
+			.setDesc(
+				"Wider images are scaled down and saved under a content-hashed name, 0 to copy images as they are"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(profile.imageMaxWidth ?? 0))
+					.onChange(async (value) => {
+						const width = parseInt(value, 10);
+						if (isNaN(width) || width < 0) return;
+						profile.imageMaxWidth = width;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Image Format")
+			.setDesc(
+				"Re-encode exported images, GIFs and SVGs are always copied"
+			)
+			.addDropdown((dropdown) => {
+				let format: ImageFormat;
+				for (format in IMAGE_FORMATS) {
+					dropdown.addOption(format, IMAGE_FORMATS[format]);
+				}
+				dropdown
+					.setValue(profile.imageFormat ?? "original")
+					.onChange(async (value) => {
+						profile.imageFormat = value as ImageFormat;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Image Quality")
+			.setDesc("Quality for re-encoded JPEG and WebP images, from 0 to 1")
+			.addText((text) =>
+				text
+					.setPlaceholder("0.85")
+					.setValue(String(profile.imageQuality ?? 0.85))
+					.onChange(async (value) => {
+						const quality = parseFloat(value);
+						if (isNaN(quality) || quality <= 0 || quality > 1) {
+							return;
+						}
+						profile.imageQuality = quality;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const defaults = getSsgAdapter(profile.adapter ?? "hugo").shortcodes;
+		let kind: keyof ShortcodeMapping;
+		for (kind in SHORTCODE_KINDS) {
+			const templateKind = kind;
+			new Setting(containerEl)
+				.setName(`${SHORTCODE_KINDS[templateKind]} Template`)
+				.setDesc(
+					"Shortcode or HTML with {placeholders}, empty for the site generator's default"
+				)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder(defaults[templateKind])
+						.setValue(profile.shortcodes?.[templateKind] ?? "")
+						.onChange(async (value) => {
+							profile.shortcodes = {
+								...profile.shortcodes,
+								[templateKind]: value,
+							};
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Section Rules")
+			.setDesc(
+				'One "folder: section" per line, frontmatter section takes priority'
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Notes/Pages: /\nNotes/Posts: posts")
+					.setValue(formatSectionRules(profile.sectionRules))
+					.onChange(async (value) => {
+						profile.sectionRules = parseSectionRules(value);
 						await this.plugin.saveSettings();
 					})
 			);
@@ -0,0 +1,52 @@
+import { App, arrayBufferToHex, TFile } from "obsidian";
+import { parseWikilink, replaceWikilinks, Wikilink } from "./links";
+
+// An attachment embedded in a note with ![[...]]
+export interface EmbeddedAsset {
+	link: Wikilink;
+	file: TFile;
+}
+
+// Look an embed up by its exact vault path first, the way the Hugo export
+// always has, then fall back to Obsidian's own link resolution
+export function resolveEmbeddedFile(
+	app: App,
+	target: string,
+	sourcePath: string
+): TFile | null {
+	const exact = app.vault.getAbstractFileByPath(target);
+	if (exact instanceof TFile) return exact;
+
+	const link = parseWikilink(`![[${target}]]`);
+	if (!link) return null;
+	return app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+}
+
+// Every non-note embed in a note, plus the embeds that didn't resolve
+export function findEmbeddedAssets(
+	app: App,
+	content: string,
+	sourcePath: string
+): { assets: EmbeddedAsset[]; missing: string[] } {
+	const assets: EmbeddedAsset[] = [];
+	const missing: string[] = [];
+
+	replaceWikilinks(content, (link) => {
+		if (!link.embed) return link.raw;
+
+		const file = resolveEmbeddedFile(app, link.linkpath, sourcePath);
+		if (!file) {
+			missing.push(link.linkpath);
+		} else if (file.extension !== "md") {
+			assets.push({ link, file });
+		}
+		return link.raw;
+	});
+
+	return { assets, missing };
+}
+
+export async function hashAsset(app: App, file: TFile): Promise<string> {
+	const data = await app.vault.readBinary(file);
+	return arrayBufferToHex(await crypto.subtle.digest("SHA-256", data));
+}
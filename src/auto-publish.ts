@@ -0,0 +1,121 @@
+import { arrayBufferToHex, TFile } from "obsidian";
+import type MyPlugin from "../main";
+import { FrontmatterDocument } from "./frontmatter";
+import { stripNotesSiteKeys } from "./notes-site";
+import { hasErrors, PublishTarget } from "./validation";
+
+// Content hashes of what was last sent to each target, keyed by note path
+export interface PublishedHashes {
+	[notePath: string]: { [target in PublishTarget]?: string };
+}
+
+export async function hashContent(content: string): Promise<string> {
+	const data = new TextEncoder().encode(content);
+	return arrayBufferToHex(await crypto.subtle.digest("SHA-256", data));
+}
+
+// Re-publishes #publish notes a while after they were last edited
+export class AutoPublisher {
+	plugin: MyPlugin;
+	private timers = new Map<string, number>();
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	get enabledTargets(): PublishTarget[] {
+		const targets: PublishTarget[] = [];
+		if (this.plugin.settings.autoPublishNotesSite) {
+			targets.push("notes-site");
+		}
+		if (this.plugin.settings.autoPublishHugo) {
+			targets.push("hugo");
+		}
+		return targets;
+	}
+
+	// Called on every edit; only the last edit in a burst gets published
+	schedule(file: TFile, content: string) {
+		if (this.enabledTargets.length === 0) return;
+
+		const existing = this.timers.get(file.path);
+		if (existing) window.clearTimeout(existing);
+
+		const timer = window.setTimeout(() => {
+			this.timers.delete(file.path);
+			this.run(file, content);
+		}, this.plugin.settings.autoPublishDelay * 1000);
+		this.timers.set(file.path, timer);
+	}
+
+	cancelAll() {
+		this.timers.forEach((timer) => window.clearTimeout(timer));
+		this.timers.clear();
+	}
+
+	// Remember what was sent so unchanged notes aren't published again. The
+	// plugin's own frontmatter bookkeeping doesn't count as a change.
+	async recordPublished(file: TFile, content: string, target: PublishTarget) {
+		const hashes = this.plugin.settings.publishedHashes;
+		hashes[file.path] = {
+			...hashes[file.path],
+			[target]: await hashContent(stripNotesSiteKeys(content)),
+		};
+		await this.plugin.saveSettings();
+	}
+
+	private async run(file: TFile, content: string) {
+		const doc = FrontmatterDocument.parse(content);
+		if (!this.plugin.isPublishable(doc.hasFrontmatter ? doc.data : null)) {
+			return;
+		}
+		if (doc.get("autopublish") === false) return;
+
+		const hash = await hashContent(stripNotesSiteKeys(content));
+		const published = this.plugin.settings.publishedHashes[file.path] ?? {};
+
+		for (const target of this.enabledTargets) {
+			if (published[target] === hash) continue;
+
+			// Nobody is around to click "publish anyway", so errors stop it
+			const validation = await this.plugin.validator.validate(
+				file,
+				content,
+				target
+			);
+			if (hasErrors(validation)) {
+				console.log(
+					`Skipping auto-publish of ${file.path}:`,
+					validation
+				);
+				continue;
+			}
+
+			try {
+				if (target === "notes-site") {
+					await this.plugin.notesSitePublisher.publish(file, content);
+				} else {
+					await this.exportToHugo(file, content);
+				}
+				await this.recordPublished(file, content, target);
+				this.plugin.feeds.scheduleUpdate();
+			} catch (error) {
+				console.error(`Error auto-publishing ${file.path}:`, error);
+			}
+		}
+	}
+
+	private async exportToHugo(file: TFile, content: string) {
+		const profile = this.plugin.hugoExporter.resolveProfile(content);
+		if (!profile) return;
+
+		const result = await this.plugin.hugoExporter.exportNote(
+			file,
+			content,
+			profile
+		);
+		if (result) {
+			await this.plugin.recordHugoExport(result);
+		}
+	}
+}
@@ -0,0 +1,128 @@
+// One line of a line diff: kept, removed from the old text or added in the new
+export interface DiffLine {
+	type: " " | "-" | "+";
+	text: string;
+}
+
+// A final newline ends the last line rather than starting an empty one
+function splitLines(text: string): string[] {
+	return text ? text.replace(/\n$/, "").split("\n") : [];
+}
+
+// Line diff by longest common subsequence. The common head and tail are
+// trimmed first, so an edit to one part of a long note stays cheap.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	// lengths[i][j]: LCS length of a[i..endA) and b[j..endB)
+	const rows = endA - start + 1;
+	const cols = endB - start + 1;
+	const lengths = new Uint32Array(rows * cols);
+	for (let i = rows - 2; i >= 0; i--) {
+		for (let j = cols - 2; j >= 0; j--) {
+			const below = lengths[(i + 1) * cols + j];
+			const right = lengths[i * cols + j + 1];
+			lengths[i * cols + j] =
+				a[start + i] === b[start + j]
+					? lengths[(i + 1) * cols + j + 1] + 1
+					: Math.max(below, right);
+		}
+	}
+
+	const result: DiffLine[] = a
+		.slice(0, start)
+		.map((text): DiffLine => ({ type: " ", text }));
+	let i = 0;
+	let j = 0;
+	while (i < rows - 1 || j < cols - 1) {
+		if (i < rows - 1 && j < cols - 1 && a[start + i] === b[start + j]) {
+			result.push({ type: " ", text: a[start + i] });
+			i++;
+			j++;
+		} else if (
+			i < rows - 1 &&
+			(j === cols - 1 ||
+				lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])
+		) {
+			// Removals go before additions, as in diff -u
+			result.push({ type: "-", text: a[start + i] });
+			i++;
+		} else {
+			result.push({ type: "+", text: b[start + j] });
+			j++;
+		}
+	}
+	for (const text of a.slice(endA)) result.push({ type: " ", text });
+
+	return result;
+}
+
+function formatRange(start: number, count: number): string {
+	// An empty range names the line before it, as diff -u does
+	if (count === 0) return `${start},0`;
+	return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+}
+
+// Unified diff of two texts with `context` lines around each change, empty
+// when they're the same
+export function createUnifiedDiff(
+	oldText: string,
+	newText: string,
+	oldName: string,
+	newName: string,
+	context = 3
+): string {
+	const lines = diffLines(oldText, newText);
+	const changes: number[] = [];
+	lines.forEach((line, index) => {
+		if (line.type !== " ") changes.push(index);
+	});
+	if (changes.length === 0) return "";
+
+	const output = [`--- ${oldName}`, `+++ ${newName}`];
+	let index = 0;
+	while (index < changes.length) {
+		// Changes closer than twice the context share a hunk
+		const from = Math.max(0, changes[index] - context);
+		let last = changes[index];
+		while (
+			index + 1 < changes.length &&
+			changes[index + 1] - last <= context * 2
+		) {
+			last = changes[++index];
+		}
+		const to = Math.min(lines.length, last + context + 1);
+		index++;
+
+		let oldStart = 0;
+		let newStart = 0;
+		for (const line of lines.slice(0, from)) {
+			if (line.type !== "+") oldStart++;
+			if (line.type !== "-") newStart++;
+		}
+		const hunk = lines.slice(from, to);
+		const oldCount = hunk.filter((line) => line.type !== "+").length;
+		const newCount = hunk.filter((line) => line.type !== "-").length;
+
+		output.push(
+			`@@ -${formatRange(oldStart, oldCount)} +${formatRange(
+				newStart,
+				newCount
+			)} @@`
+		);
+		for (const line of hunk) output.push(`${line.type}${line.text}`);
+	}
+	return output.join("\n");
+}
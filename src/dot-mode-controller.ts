@@ -0,0 +1,113 @@
+import { MarkdownView, TFile, WorkspaceLeaf } from "obsidian";
+import { EditorView } from "@codemirror/view";
+import type MyPlugin from "../main";
+import { dotModeField, setDotMode } from "./dot-mode";
+
+// Class that switches on the reading view styles for one leaf
+export const DOT_MODE_ENABLED_CLASS = "dot-mode-enabled";
+
+// Folder list setting, one vault folder per line
+export function parseFolderList(value: string): string[] {
+	return value
+		.split("\n")
+		.map((line) => line.trim().replace(/^\/+|\/+$/g, ""))
+		.filter((line) => line.length > 0);
+}
+
+export function isInFolders(path: string, folders: string[]): boolean {
+	return folders.some(
+		(folder) => path === folder || path.startsWith(`${folder}/`)
+	);
+}
+
+// Decides per leaf whether dot mode is on: the manual toggle, notes marked
+// private: true, notes in dot mode folders, or every note once the app has
+// been idle for a while
+export class DotModeController {
+	plugin: MyPlugin;
+	private idle = false;
+	private lastActivity = Date.now();
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	get isIdle(): boolean {
+		return this.idle;
+	}
+
+	isAutomatic(file: TFile | null): boolean {
+		if (!file) return false;
+		const { settings, app } = this.plugin;
+
+		if (isInFolders(file.path, settings.dotModeFolders)) return true;
+
+		const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+		return settings.dotModePrivateNotes && frontmatter?.private === true;
+	}
+
+	isEnabledFor(file: TFile | null): boolean {
+		return (
+			this.plugin.settings.dotModeEnabled ||
+			this.idle ||
+			this.isAutomatic(file)
+		);
+	}
+
+	// Keyboard and pointer input ends idle dot mode
+	recordActivity() {
+		this.lastActivity = Date.now();
+		if (this.idle) {
+			this.idle = false;
+			this.refresh();
+		}
+	}
+
+	checkIdle() {
+		const minutes = this.plugin.settings.dotModeIdleMinutes;
+		if (this.idle || minutes <= 0) return;
+
+		if (Date.now() - this.lastActivity >= minutes * 60 * 1000) {
+			this.idle = true;
+			this.refresh();
+		}
+	}
+
+	// Bring every open note in line with the rules. With `redraw`, editors
+	// are redrawn even if their state doesn't change, to pick up settings.
+	refresh(redraw = false) {
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			this.applyToLeaf(leaf, redraw);
+		});
+	}
+
+	applyToLeaf(leaf: WorkspaceLeaf, redraw = false) {
+		if (!(leaf.view instanceof MarkdownView)) return;
+
+		const view = leaf.view;
+		const enabled = this.isEnabledFor(view.file);
+		const wasEnabled = view.containerEl.hasClass(DOT_MODE_ENABLED_CLASS);
+		view.containerEl.toggleClass(DOT_MODE_ENABLED_CLASS, enabled);
+
+		// Switch the editor over without editing its document
+		const editorView = (view.editor as any).cm as EditorView | undefined;
+		if (
+			editorView &&
+			(redraw || editorView.state.field(dotModeField, false) !== enabled)
+		) {
+			editorView.dispatch({ effects: setDotMode.of(enabled) });
+		}
+
+		// Reading view only has spans while dot mode is on for the note. A
+		// leaf in source mode is rerendered too, for when it switches over.
+		if (redraw || wasEnabled !== enabled) {
+			view.previewMode.rerender(true);
+		}
+	}
+
+	detach() {
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			leaf.view.containerEl.removeClass(DOT_MODE_ENABLED_CLASS);
+		});
+	}
+}
@@ -0,0 +1,367 @@
+import {
+	EditorState,
+	Extension,
+	Range,
+	StateEffect,
+	StateField,
+} from "@codemirror/state";
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	ViewPlugin,
+	ViewUpdate,
+} from "@codemirror/view";
+
+// Punctuation that stays readable in dot mode
+export const DOT_MODE_PUNCTUATION = '.,":-;!?';
+
+// How much of the text around the cursor dot mode leaves readable
+export type DotModeReveal = "none" | "word" | "line" | "sentence" | "recent";
+
+export const DOT_MODE_REVEALS: { [reveal in DotModeReveal]: string } = {
+	none: "Nothing",
+	word: "Current word",
+	line: "Current line",
+	sentence: "Current sentence",
+	recent: "Last characters typed",
+};
+
+export interface DotModeConfig {
+	reveal: DotModeReveal;
+	// Characters left readable before the cursor in "recent" mode
+	revealChars: number;
+	punctuation: string;
+}
+
+export type DotModeClass = "char" | "space" | "punct";
+
+// A stretch of characters that share one dot mode style
+export interface DotModeRun {
+	from: number;
+	to: number;
+	type: DotModeClass;
+}
+
+interface TextRange {
+	from: number;
+	to: number;
+}
+
+const marks: { [type in DotModeClass]: Decoration } = {
+	char: Decoration.mark({ class: "cm-dot-mode-char" }),
+	space: Decoration.mark({ class: "cm-dot-mode-space" }),
+	punct: Decoration.mark({ class: "cm-dot-mode-punct" }),
+};
+
+const SENTENCE_END_REGEX = /[.!?。！？]/;
+
+// Intl.Segmenter isn't in every runtime Obsidian ships on, nor in our lib
+interface GraphemeSegmenter {
+	segment(text: string): Iterable<{ segment: string }>;
+}
+
+let segmenter: GraphemeSegmenter | null | undefined;
+
+function getSegmenter(): GraphemeSegmenter | null {
+	if (segmenter === undefined) {
+		const Segmenter = (Intl as any).Segmenter;
+		segmenter = Segmenter
+			? new Segmenter(undefined, { granularity: "grapheme" })
+			: null;
+	}
+	return segmenter ?? null;
+}
+
+// Split text into user-perceived characters, so emoji and combining marks
+// get one dot rather than one per UTF-16 code unit. Falls back to code
+// points where grapheme segmentation isn't available.
+export function splitGraphemes(text: string): string[] {
+	const graphemes = getSegmenter();
+	if (!graphemes) return Array.from(text);
+
+	const result: string[] = [];
+	for (const { segment } of Array.from(graphemes.segment(text))) {
+		result.push(segment);
+	}
+	return result;
+}
+
+export function classifyGrapheme(
+	grapheme: string,
+	punctuation: string[]
+): DotModeClass | null {
+	if (grapheme === "\n" || grapheme === "\r\n") return null;
+	if (/^\s+$/.test(grapheme)) return "space";
+	return punctuation.includes(grapheme) ? "punct" : "char";
+}
+
+// Split text into runs of the same style, offset by `from`. Line breaks end
+// a run and get no style of their own.
+export function buildDotModeRuns(
+	text: string,
+	from: number,
+	punctuation: string[] = splitGraphemes(DOT_MODE_PUNCTUATION)
+): DotModeRun[] {
+	const runs: DotModeRun[] = [];
+	let current: DotModeRun | null = null;
+	let pos = from;
+
+	for (const grapheme of splitGraphemes(text)) {
+		const type = classifyGrapheme(grapheme, punctuation);
+		const end = pos + grapheme.length;
+		if (current && current.type === type) {
+			current.to = end;
+		} else {
+			if (current) runs.push(current);
+			current = type ? { from: pos, to: end, type } : null;
+		}
+		pos = end;
+	}
+	if (current) runs.push(current);
+
+	return runs;
+}
+
+// The sentence around `offset` in a line of text, including its terminator
+export function findSentence(text: string, offset: number): TextRange {
+	let from = offset;
+	while (from > 0 && !SENTENCE_END_REGEX.test(text[from - 1])) from--;
+	while (from < offset && /\s/.test(text[from])) from++;
+
+	let to = offset;
+	while (to < text.length && !SENTENCE_END_REGEX.test(text[to])) to++;
+	return { from, to: Math.min(to + 1, text.length) };
+}
+
+// The part of the document left readable around the cursor
+export function getRevealRange(
+	state: EditorState,
+	config: DotModeConfig
+): TextRange | null {
+	const head = state.selection.main.head;
+	const line = state.doc.lineAt(head);
+
+	switch (config.reveal) {
+		case "word":
+			return state.wordAt(head);
+		case "line":
+			return { from: line.from, to: line.to };
+		case "sentence": {
+			const sentence = findSentence(line.text, head - line.from);
+			return {
+				from: line.from + sentence.from,
+				to: line.from + sentence.to,
+			};
+		}
+		case "recent": {
+			const before = splitGraphemes(line.text.slice(0, head - line.from));
+			const revealed = before
+				.slice(Math.max(0, before.length - config.revealChars))
+				.join("");
+			return { from: head - revealed.length, to: head };
+		}
+		default:
+			return null;
+	}
+}
+
+// Turning dot mode on or off in an editor, without touching the document.
+// Dispatching the current value again redraws with fresh settings.
+export const setDotMode = StateEffect.define<boolean>();
+
+export const dotModeField = StateField.define<boolean>({
+	create: () => false,
+	update(enabled, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setDotMode)) enabled = effect.value;
+		}
+		return enabled;
+	},
+});
+
+function decorateRange(
+	state: EditorState,
+	from: number,
+	to: number,
+	reveal: TextRange | null,
+	punctuation: string[]
+): Range<Decoration>[] {
+	// The revealed range is cut out of whatever it overlaps
+	let parts: TextRange[] = [{ from, to }];
+	if (reveal && reveal.from < to && reveal.to > from) {
+		parts = [
+			{ from, to: Math.max(from, reveal.from) },
+			{ from: Math.min(to, reveal.to), to },
+		];
+	}
+
+	const ranges: Range<Decoration>[] = [];
+	for (const part of parts) {
+		if (part.from >= part.to) continue;
+		for (const run of buildDotModeRuns(
+			state.doc.sliceString(part.from, part.to),
+			part.from,
+			punctuation
+		)) {
+			ranges.push(marks[run.type].range(run.from, run.to));
+		}
+	}
+	return ranges;
+}
+
+// The editor side of dot mode: the per-editor on/off state plus the view
+// plugin that draws it. Only what's on screen is decorated; edits and cursor
+// moves redo the lines they touched and map the rest.
+export function dotModeExtension(
+	initial: () => boolean,
+	getConfig: () => DotModeConfig
+): Extension {
+	class DotModeView {
+		decorations: DecorationSet;
+		private reveal: TextRange | null = null;
+		private punctuation: string[] = [];
+
+		constructor(view: EditorView) {
+			this.decorations = this.build(view);
+		}
+
+		update(update: ViewUpdate) {
+			const enabled = update.state.field(dotModeField);
+			const toggled = update.transactions.some((tr) =>
+				tr.effects.some((effect) => effect.is(setDotMode))
+			);
+
+			if (toggled || update.viewportChanged) {
+				this.decorations = this.build(update.view);
+			} else if (enabled && (update.docChanged || update.selectionSet)) {
+				this.decorations = this.patch(update);
+			}
+		}
+
+		private build(view: EditorView): DecorationSet {
+			if (!view.state.field(dotModeField)) return Decoration.none;
+
+			const config = getConfig();
+			this.punctuation = splitGraphemes(config.punctuation);
+			this.reveal = getRevealRange(view.state, config);
+
+			const ranges: Range<Decoration>[] = [];
+			for (const { from, to } of view.visibleRanges) {
+				ranges.push(
+					...decorateRange(
+						view.state,
+						from,
+						to,
+						this.reveal,
+						this.punctuation
+					)
+				);
+			}
+			return Decoration.set(ranges, true);
+		}
+
+		private patch(update: ViewUpdate): DecorationSet {
+			const { state } = update;
+			const touched: TextRange[] = [];
+
+			update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+				touched.push({ from: fromB, to: toB });
+			});
+
+			// Lines the revealed range leaves and enters both need redrawing
+			const previous = this.reveal;
+			this.reveal = getRevealRange(state, getConfig());
+			if (previous) {
+				touched.push({
+					from: update.changes.mapPos(previous.from),
+					to: update.changes.mapPos(previous.to),
+				});
+			}
+			if (this.reveal) touched.push(this.reveal);
+
+			let decorations = this.decorations.map(update.changes);
+			for (const range of touched) {
+				const from = state.doc.lineAt(range.from).from;
+				const to = state.doc.lineAt(range.to).to;
+				decorations = decorations.update({
+					filterFrom: from,
+					filterTo: to,
+					filter: () => false,
+					add: decorateRange(
+						state,
+						from,
+						to,
+						this.reveal,
+						this.punctuation
+					),
+					sort: true,
+				});
+			}
+			return decorations;
+		}
+	}
+
+	return [
+		dotModeField.init(() => initial()),
+		ViewPlugin.fromClass(DotModeView, {
+			decorations: (view) => view.decorations,
+		}),
+	];
+}
+
+function createRunSpan(cls: string, text = ""): HTMLSpanElement {
+	const span = document.createElement("span");
+	span.classList.add(cls);
+	span.textContent = text;
+	return span;
+}
+
+// Reading view version of the same runs. Words and sentences get their own
+// spans so the hovered one can be revealed with CSS.
+export function renderDotModeText(
+	text: string,
+	punctuation: string[]
+): HTMLSpanElement {
+	const container = createRunSpan("dot-mode-text");
+	let sentence = createRunSpan("dot-mode-sentence");
+	let word: HTMLSpanElement | null = null;
+	let pos = 0;
+
+	for (const run of buildDotModeRuns(text, 0, punctuation)) {
+		// Line breaks aren't part of any run but still belong in the text
+		if (run.from > pos) {
+			sentence.appendChild(
+				document.createTextNode(text.slice(pos, run.from))
+			);
+			word = null;
+		}
+		pos = run.to;
+
+		const runText = text.slice(run.from, run.to);
+		const span = createRunSpan(`dot-mode-${run.type}`, runText);
+		if (run.type === "space") {
+			sentence.appendChild(span);
+			word = null;
+			continue;
+		}
+
+		if (!word) {
+			word = createRunSpan("dot-mode-word");
+			sentence.appendChild(word);
+		}
+		word.appendChild(span);
+
+		if (run.type === "punct" && SENTENCE_END_REGEX.test(runText)) {
+			container.appendChild(sentence);
+			sentence = createRunSpan("dot-mode-sentence");
+			word = null;
+		}
+	}
+
+	if (pos < text.length) {
+		sentence.appendChild(document.createTextNode(text.slice(pos)));
+	}
+	if (sentence.hasChildNodes()) container.appendChild(sentence);
+	return container;
+}
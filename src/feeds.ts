@@ -0,0 +1,306 @@
+import { TFile } from "obsidian";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type MyPlugin from "../main";
+import {
+	Frontmatter,
+	FrontmatterDocument,
+	getFrontmatterTags,
+} from "./frontmatter";
+import { findExportProfile, slugifyFilename } from "./hugo";
+import { getLinkDisplayText, replaceWikilinks } from "./links";
+import { createMarkdownRenderer } from "./markdown";
+import { NOTES_SITE_URL_KEY } from "./notes-site";
+import { resolvePage, resolveSsgAdapter } from "./ssg-adapters";
+import { expandTransclusions } from "./transclusion";
+
+export const RSS_FILENAME = "rss.xml";
+export const ATOM_FILENAME = "atom.xml";
+export const JSON_FEED_FILENAME = "feed.json";
+
+const MAX_FEED_ITEMS = 50;
+
+export interface FeedMetadata {
+	title: string;
+	description: string;
+	siteUrl: string;
+	author: string;
+}
+
+export interface FeedItem {
+	id: string;
+	title: string;
+	url: string;
+	date: Date;
+	tags: string[];
+	html: string;
+}
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+function joinUrl(base: string, suffix: string): string {
+	return `${base.replace(/\/+$/, "")}/${suffix.replace(/^\/+/, "")}`;
+}
+
+function getUpdated(items: FeedItem[]): Date {
+	return items.length > 0 ? items[0].date : new Date();
+}
+
+// RSS 2.0, dates in RFC 822 as the spec requires
+export function buildRss(meta: FeedMetadata, items: FeedItem[]): string {
+	const entries = items
+		.map(
+			(item) => `		<item>
+			<title>${escapeXml(item.title)}</title>
+			<link>${escapeXml(item.url)}</link>
+			<guid isPermaLink="false">${escapeXml(item.id)}</guid>
+			<pubDate>${item.date.toUTCString()}</pubDate>
+${item.tags
+	.map((tag) => `			<category>${escapeXml(tag)}</category>\n`)
+	.join("")}			<description>${escapeXml(item.html)}</description>
+		</item>`
+		)
+		.join("\n");
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+	<channel>
+		<title>${escapeXml(meta.title)}</title>
+		<link>${escapeXml(meta.siteUrl)}</link>
+		<description>${escapeXml(meta.description || meta.title)}</description>
+		<atom:link href="${escapeXml(
+			joinUrl(meta.siteUrl, RSS_FILENAME)
+		)}" rel="self" type="application/rss+xml" />
+		<lastBuildDate>${getUpdated(items).toUTCString()}</lastBuildDate>
+${entries}
+	</channel>
+</rss>
+`;
+}
+
+// Atom 1.0 (RFC 4287)
+export function buildAtom(meta: FeedMetadata, items: FeedItem[]): string {
+	const entries = items
+		.map(
+			(item) => `	<entry>
+		<id>${escapeXml(item.url)}</id>
+		<title>${escapeXml(item.title)}</title>
+		<link href="${escapeXml(item.url)}" />
+		<updated>${item.date.toISOString()}</updated>
+${item.tags
+	.map((tag) => `		<category term="${escapeXml(tag)}" />\n`)
+	.join("")}		<content type="html">${escapeXml(item.html)}</content>
+	</entry>`
+		)
+		.join("\n");
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+	<id>${escapeXml(joinUrl(meta.siteUrl, "/"))}</id>
+	<title>${escapeXml(meta.title)}</title>
+	<updated>${getUpdated(items).toISOString()}</updated>
+	<link href="${escapeXml(meta.siteUrl)}" />
+	<link href="${escapeXml(
+		joinUrl(meta.siteUrl, ATOM_FILENAME)
+	)}" rel="self" type="application/atom+xml" />
+	<author>
+		<name>${escapeXml(meta.author || meta.title)}</name>
+	</author>
+${entries}
+</feed>
+`;
+}
+
+// JSON Feed 1.1
+export function buildJsonFeed(meta: FeedMetadata, items: FeedItem[]): string {
+	const feed = {
+		version: "https://jsonfeed.org/version/1.1",
+		title: meta.title,
+		home_page_url: meta.siteUrl,
+		feed_url: joinUrl(meta.siteUrl, JSON_FEED_FILENAME),
+		description: meta.description || undefined,
+		authors: meta.author ? [{ name: meta.author }] : undefined,
+		items: items.map((item) => ({
+			id: item.id,
+			url: item.url,
+			title: item.title,
+			content_html: item.html,
+			date_published: item.date.toISOString(),
+			tags: item.tags.length > 0 ? item.tags : undefined,
+		})),
+	};
+	return JSON.stringify(feed, null, "\t") + "\n";
+}
+
+// Builds all three feeds from every #publish note
+export class FeedGenerator {
+	plugin: MyPlugin;
+	private timer: number | null = null;
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	get isConfigured(): boolean {
+		const { feedOutputDir, feedSiteUrl } = this.plugin.settings;
+		return !!feedOutputDir && !!feedSiteUrl;
+	}
+
+	// Publishes come in bursts during bulk exports, so rebuild once at the end
+	scheduleUpdate() {
+		if (!this.isConfigured) return;
+
+		if (this.timer) window.clearTimeout(this.timer);
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.write().catch((error) => {
+				console.error("Error writing feeds:", error);
+			});
+		}, 2000);
+	}
+
+	cancel() {
+		if (this.timer) window.clearTimeout(this.timer);
+		this.timer = null;
+	}
+
+	getMetadata(): FeedMetadata {
+		const { settings } = this.plugin;
+		return {
+			title: settings.feedTitle || this.plugin.app.vault.getName(),
+			description: settings.feedDescription,
+			siteUrl: settings.feedSiteUrl,
+			author: settings.feedAuthor,
+		};
+	}
+
+	async collectItems(): Promise<FeedItem[]> {
+		const { app } = this.plugin;
+		const items: FeedItem[] = [];
+
+		for (const file of app.vault.getMarkdownFiles()) {
+			if (this.plugin.isDailyNote(file.name)) continue;
+
+			const content = await app.vault.cachedRead(file);
+			const error = FrontmatterDocument.parse(content).error;
+			if (error) {
+				console.error(`Invalid frontmatter in ${file.path}:`, error);
+				continue;
+			}
+			const frontmatter = this.plugin.getFrontmatter(content);
+			if (!this.plugin.isPublishable(frontmatter)) continue;
+
+			const expanded = await expandTransclusions(app, content, file.path);
+			const doc = FrontmatterDocument.parse(
+				this.plugin.redact(expanded.content).content
+			);
+			// The post URL is bookkeeping, so it survives the allowlist
+			const postUrl = this.plugin.getFrontmatterString(
+				frontmatter,
+				NOTES_SITE_URL_KEY
+			);
+			items.push(
+				this.toItem(
+					file,
+					doc,
+					postUrl ?? this.getPageUrl(file, frontmatter)
+				)
+			);
+		}
+
+		items.sort((a, b) => b.date.getTime() - a.date.getTime());
+		return items.slice(0, MAX_FEED_ITEMS);
+	}
+
+	async write(): Promise<void> {
+		const outputDir = this.plugin.settings.feedOutputDir;
+		const meta = this.getMetadata();
+		const items = await this.collectItems();
+
+		await fs.mkdir(outputDir, { recursive: true });
+		await Promise.all([
+			fs.writeFile(
+				path.join(outputDir, RSS_FILENAME),
+				buildRss(meta, items),
+				"utf8"
+			),
+			fs.writeFile(
+				path.join(outputDir, ATOM_FILENAME),
+				buildAtom(meta, items),
+				"utf8"
+			),
+			fs.writeFile(
+				path.join(outputDir, JSON_FEED_FILENAME),
+				buildJsonFeed(meta, items),
+				"utf8"
+			),
+		]);
+	}
+
+	// Where the note's export profile puts its page, under the feed's site URL
+	private getPageUrl(file: TFile, frontmatter: Frontmatter | null): string {
+		const { settings } = this.plugin;
+		const profile = findExportProfile(
+			settings.exportProfiles,
+			this.plugin.getFrontmatterString(frontmatter, "export_profile") ||
+				settings.defaultExportProfile
+		);
+		if (!profile) {
+			return joinUrl(
+				settings.feedSiteUrl,
+				`${slugifyFilename(file.basename)}/`
+			);
+		}
+
+		const adapter = resolveSsgAdapter(
+			profile,
+			this.plugin.getFrontmatterString(frontmatter, "export_adapter")
+		);
+		const page = resolvePage(
+			profile,
+			file,
+			this.plugin.getFrontmatterString(frontmatter, "section"),
+			this.plugin.getFrontmatterString(frontmatter, "date")
+		);
+		return joinUrl(settings.feedSiteUrl, adapter.getPageUrl(page));
+	}
+
+	private toItem(
+		file: TFile,
+		doc: FrontmatterDocument,
+		url: string
+	): FeedItem {
+		// Fall back to the file's creation time for undated notes
+		const frontmatterDate = doc.getString("date");
+		const parsed = frontmatterDate ? new Date(frontmatterDate) : null;
+		const date =
+			parsed && !isNaN(parsed.getTime())
+				? parsed
+				: new Date(file.stat.ctime);
+
+		// Wikilinks have no URL in a feed reader, keep only their text
+		const markdown = replaceWikilinks(doc.body, (link) =>
+			link.embed ? "" : getLinkDisplayText(link)
+		);
+
+		return {
+			id: url,
+			title:
+				doc.getString("title") ??
+				this.plugin.filenameToTitle(file.name),
+			url,
+			date,
+			tags: getFrontmatterTags(doc.data).filter(
+				(tag) => tag !== "publish"
+			),
+			html: createMarkdownRenderer().render(markdown),
+		};
+	}
+}
@@ -0,0 +1,195 @@
+import { App, parseYaml, stringifyYaml, TFile } from "obsidian";
+
+export interface Frontmatter {
+	[key: string]: unknown;
+}
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n?---[ \t]*(\r?\n|$)/;
+
+// Obsidian users tend to write tags as `- #publish`, `[#publish]` or
+// `tags: #publish, #blog`, which YAML reads as a comment or rejects outright.
+// Quote those before parsing. A value is only quoted when it's nothing but
+// hashtags, so real comments like `key: # note` are left alone, and quoted
+// values are left as they are.
+function quoteHashTags(yaml: string): string {
+	return yaml
+		.replace(/^(\s*-\s+)(#[^\s#'"][^\n]*?)\s*$/gm, '$1"$2"')
+		.replace(
+			/^(\s*[\w-]+:[ \t]+)(#[^\s#'",]+(?:[ \t]*,?[ \t]*#[^\s#'",]+)*)[ \t]*$/gm,
+			'$1"$2"'
+		)
+		.replace(/^.*$/gm, (line) =>
+			/^[^"'[]*["']/.test(line)
+				? line
+				: line.replace(/([[,]\s*)(#[^\s,\]'"]+)/g, '$1"$2"')
+		);
+}
+
+// Thrown when a note's frontmatter would have to be rewritten but its YAML
+// can't be read
+export class FrontmatterError extends Error {
+	path: string;
+
+	constructor(path: string, reason: string) {
+		super(`Invalid frontmatter in ${path}: ${reason}`);
+		this.name = "FrontmatterError";
+		this.path = path;
+	}
+}
+
+// A note split into its YAML frontmatter and markdown body. Edits go through
+// the data object and are written back as a fresh YAML block by toString().
+export class FrontmatterDocument {
+	data: Frontmatter;
+	body: string;
+	hasFrontmatter: boolean;
+	// Why the YAML couldn't be read, null when it could. A broken block
+	// leaves the note with no usable frontmatter rather than throwing, so one
+	// note can't stop a vault-wide pass. It's dropped from toString(), so
+	// anything writing back to the note must check this first.
+	error: string | null;
+
+	private constructor(
+		data: Frontmatter,
+		body: string,
+		hasFrontmatter: boolean,
+		error: string | null = null
+	) {
+		this.data = data;
+		this.body = body;
+		this.hasFrontmatter = hasFrontmatter;
+		this.error = error;
+	}
+
+	static parse(content: string): FrontmatterDocument {
+		const match = content.match(FRONTMATTER_REGEX);
+		if (!match) {
+			return new FrontmatterDocument({}, content, false);
+		}
+
+		const body = content.slice(match[0].length);
+		let parsed: unknown = {};
+		try {
+			if (match[1].trim()) parsed = parseYaml(quoteHashTags(match[1]));
+		} catch (error) {
+			return new FrontmatterDocument(
+				{},
+				body,
+				true,
+				error instanceof Error ? error.message : String(error)
+			);
+		}
+		const data =
+			parsed && typeof parsed === "object" && !Array.isArray(parsed)
+				? (parsed as Frontmatter)
+				: {};
+		return new FrontmatterDocument(data, body, true);
+	}
+
+	has(key: string): boolean {
+		const value = this.data[key];
+		return value !== undefined && value !== null && value !== "";
+	}
+
+	get(key: string): unknown {
+		return this.data[key];
+	}
+
+	getString(key: string): string | undefined {
+		const value = this.data[key];
+		if (typeof value === "string") return value || undefined;
+		if (typeof value === "number") return String(value);
+		return undefined;
+	}
+
+	set(key: string, value: unknown): void {
+		this.data[key] = value;
+	}
+
+	remove(key: string): void {
+		delete this.data[key];
+	}
+
+	// Rename a key in place so the block keeps its original ordering
+	rename(from: string, to: string): void {
+		if (!(from in this.data)) return;
+
+		const renamed: Frontmatter = {};
+		for (const key of Object.keys(this.data)) {
+			if (key === to && key !== from) continue;
+			renamed[key === from ? to : key] = this.data[key];
+		}
+		this.data = renamed;
+	}
+
+	toString(): string {
+		if (Object.keys(this.data).length === 0) {
+			return this.body;
+		}
+		return `---\n${stringifyYaml(this.data)}---\n${this.body}`;
+	}
+}
+
+export function getFrontmatter(content: string): Frontmatter | null {
+	const doc = FrontmatterDocument.parse(content);
+	return doc.hasFrontmatter ? doc.data : null;
+}
+
+// A tags key with nothing YAML could read in it. Usually tags written some
+// way quoteHashTags doesn't know, so the note may be meant to be tagged.
+export function hasUnreadableTags(frontmatter: Frontmatter | null): boolean {
+	if (!frontmatter) return false;
+	return ["tags", "tag"].some(
+		(key) => key in frontmatter && frontmatter[key] === null
+	);
+}
+
+// Tags without their leading "#", whether written as a list or a string
+export function getFrontmatterTags(frontmatter: Frontmatter | null): string[] {
+	const tags = frontmatter?.tags ?? frontmatter?.tag;
+	const values = Array.isArray(tags)
+		? tags
+		: typeof tags === "string"
+		? tags.split(/[,\s]+/)
+		: [];
+
+	return values
+		.filter((tag): tag is string => typeof tag === "string")
+		.map((tag) => tag.trim().replace(/^#/, ""))
+		.filter((tag) => tag.length > 0);
+}
+
+// Drop a tag however it was written: list or string, with or without "#"
+export function removeFrontmatterTag(doc: FrontmatterDocument, tag: string) {
+	const key = doc.has("tags") ? "tags" : "tag";
+	const tags = doc.get(key);
+	const keep = (value: unknown) =>
+		typeof value !== "string" || value.trim().replace(/^#/, "") !== tag;
+
+	if (Array.isArray(tags)) {
+		doc.set(key, tags.filter(keep));
+	} else if (typeof tags === "string") {
+		doc.set(
+			key,
+			tags
+				.split(/[,\s]+/)
+				.filter(keep)
+				.join(", ")
+		);
+	}
+}
+
+// Edit a note's frontmatter on disk through the same parser the exporters
+// use, so `#tag` style lists survive the round trip
+export async function updateFrontmatter(
+	app: App,
+	file: TFile,
+	fn: (doc: FrontmatterDocument) => void
+): Promise<void> {
+	await app.vault.process(file, (content) => {
+		const doc = FrontmatterDocument.parse(content);
+		if (doc.error) throw new FrontmatterError(file.path, doc.error);
+		fn(doc);
+		return doc.toString();
+	});
+}
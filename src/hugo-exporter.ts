@@ -0,0 +1,518 @@
+import { TFile } from "obsidian";
+import * as fs from "fs/promises";
+import { dirname, join, relative } from "path";
+import type MyPlugin from "../main";
+import { createUnifiedDiff } from "./diff";
+import { FrontmatterDocument } from "./frontmatter";
+import { ExportProfile, findExportProfile } from "./hugo";
+import {
+	readManifest,
+	removeManifestEntry,
+	writeManifest,
+} from "./hugo-manifest";
+import {
+	findMediaEmbeds,
+	getYouTubeId,
+	HugoImagePipeline,
+	isExternalUrl,
+	MediaEmbed,
+	pathExists,
+	PlannedImage,
+	resolveMediaFile,
+} from "./hugo-images";
+import {
+	getShortcodeMapping,
+	renderCallouts,
+	renderShortcode,
+} from "./hugo-shortcodes";
+import {
+	collectWikilinks,
+	getLinkDisplayText,
+	headingToAnchor,
+	replaceWikilinks,
+	resolveWikilink,
+} from "./links";
+import {
+	ExportedPage,
+	getPagePath,
+	needsPageDate,
+	resolvePage,
+	resolveSsgAdapter,
+	SSG_ADAPTER_KINDS,
+	SsgAdapter,
+} from "./ssg-adapters";
+import { expandTransclusions } from "./transclusion";
+
+export interface HugoExportResult {
+	profile: ExportProfile;
+	sourcePath: string;
+	contentPath: string;
+	images: string[];
+	downgradedLinks: string[];
+}
+
+// Everything an export would write, worked out without touching the repo
+export interface HugoDryRun {
+	profile: ExportProfile;
+	sourcePath: string;
+	contentPath: string;
+	content: string;
+	// The page as it is in the repo now, null if it doesn't exist yet
+	previousContent: string | null;
+	// Unified diff from the current page to the new one, empty if unchanged
+	diff: string;
+	images: PlannedImage[];
+	downgradedLinks: string[];
+}
+
+export class HugoExporter {
+	plugin: MyPlugin;
+	imagePipeline: HugoImagePipeline;
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+		this.imagePipeline = new HugoImagePipeline(plugin);
+	}
+
+	// Pick the Hugo checkout a note goes into, null if it isn't configured
+	resolveProfile(content: string): ExportProfile | null {
+		const frontmatter = this.plugin.getFrontmatter(content);
+		const profile = findExportProfile(
+			this.plugin.settings.exportProfiles,
+			this.plugin.getFrontmatterString(frontmatter, "export_profile") ||
+				this.plugin.settings.defaultExportProfile
+		);
+		if (!profile || !profile.repoRoot) return null;
+		return profile;
+	}
+
+	// Transform a note into Hugo markdown and write it, along with any
+	// embedded images, into the profile's repo. Returns null for daily notes.
+	async exportNote(
+		file: TFile,
+		content: string,
+		profile: ExportProfile,
+		exported?: Set<string>
+	): Promise<HugoExportResult | null> {
+		const dryRun = await this.dryRun(file, content, profile, exported);
+		return dryRun ? this.applyDryRun(dryRun) : null;
+	}
+
+	// Where a note's page goes in a profile's repo, and the generator it's
+	// written for. Read from the unredacted note, redaction may drop the keys.
+	resolveTarget(
+		file: TFile,
+		content: string,
+		profile: ExportProfile
+	): { adapter: SsgAdapter; page: ExportedPage; contentPath: string } {
+		const doc = FrontmatterDocument.parse(content);
+		const adapter = resolveSsgAdapter(
+			profile,
+			doc.getString("export_adapter")
+		);
+		const page = resolvePage(
+			profile,
+			file,
+			doc.getString("section"),
+			doc.getString("date")
+		);
+		return {
+			adapter,
+			page,
+			contentPath: getPagePath(profile, adapter, page),
+		};
+	}
+
+	// Run the whole transformation and compare it with what's in the repo,
+	// without writing anything. Returns null for daily notes. `exported` is
+	// every note in the profile's repo once this export is done, read from
+	// its manifest when not given.
+	async dryRun(
+		file: TFile,
+		content: string,
+		profile: ExportProfile,
+		exported?: Set<string>
+	): Promise<HugoDryRun | null> {
+		const filename = file.name;
+
+		// Check if it's a daily note
+		if (this.plugin.isDailyNote(filename)) {
+			console.log("daily file detected, skipping");
+			return null;
+		}
+
+		// Frontmatter section wins over folder rules, "/" is the content root
+		const { adapter, page, contentPath } = this.resolveTarget(
+			file,
+			content,
+			profile
+		);
+		if (
+			needsPageDate(
+				adapter,
+				FrontmatterDocument.parse(content).getString("date")
+			)
+		) {
+			throw new Error(
+				`${file.path} has no date, ${
+					SSG_ADAPTER_KINDS[adapter.kind]
+				} needs one for the filename`
+			);
+		}
+
+		// Inline embedded notes first so their images and links get exported,
+		// then take out anything that must stay in the vault
+		const expanded = await expandTransclusions(
+			this.plugin.app,
+			content,
+			file.path
+		);
+		const doc = FrontmatterDocument.parse(
+			this.plugin.redact(expanded.content).content
+		);
+		const images: PlannedImage[] = [];
+
+		// If no date, add the page's: the original date if redaction dropped
+		// it, otherwise today's in yyyy-mm-dd format
+		if (!doc.has("date")) {
+			doc.set("date", page.date);
+		}
+
+		// If no title, add the converted filename as title
+		if (!doc.has("title")) {
+			doc.set("title", this.plugin.filenameToTitle(filename));
+		}
+
+		adapter.mapFrontmatter(doc);
+
+		// Plugin-only keys have no meaning to the site
+		doc.remove("export_profile");
+		doc.remove("export_adapter");
+
+		// Render every image and media embed with the profile's templates,
+		// copying the files into the static dir. Embeds alone on their line
+		// take the next line as their caption when a blank line follows, and
+		// several images alone on a line become a gallery.
+		const mapping = getShortcodeMapping(
+			profile.shortcodes,
+			adapter.shortcodes
+		);
+		const lines = doc.body.split("\n");
+		const processedLines: string[] = [];
+		let inFence = false;
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+			if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+			const embeds = inFence ? [] : findMediaEmbeds(line);
+			if (embeds.length === 0) {
+				processedLines.push(line);
+				continue;
+			}
+
+			const standalone =
+				line.replace(/\s+/g, "") ===
+				embeds
+					.map((embed) => embed.raw)
+					.join("")
+					.replace(/\s+/g, "");
+			let caption = "";
+			if (standalone && this.isCaptionLine(lines, i + 1)) {
+				caption = lines[i + 1].trim();
+				i++; // Skip the caption line
+			}
+
+			let processed: string;
+			if (
+				standalone &&
+				embeds.length > 1 &&
+				embeds.every((embed) => embed.kind === "image")
+			) {
+				const rendered: string[] = [];
+				for (const embed of embeds) {
+					rendered.push(
+						await this.exportMedia(
+							embed,
+							embed.title,
+							mapping.galleryImage,
+							file,
+							profile,
+							images
+						)
+					);
+				}
+				processed = renderShortcode(mapping.gallery, {
+					images: rendered.join("\n"),
+					caption,
+				});
+			} else {
+				processed = line;
+				for (const embed of embeds) {
+					const output = await this.exportMedia(
+						embed,
+						(embeds.length === 1 && caption) || embed.title,
+						mapping[embed.kind],
+						file,
+						profile,
+						images
+					);
+					processed = processed.replace(embed.raw, () => output);
+				}
+			}
+			processedLines.push(standalone ? `${processed}\n` : processed);
+		}
+
+		// Point wikilinks at the exported pages, or flatten them to text
+		const exportedNotes = new Set(
+			exported ?? Object.keys((await readManifest(profile)).notes)
+		).add(file.path);
+		const linkResult = await this.rewriteLinks(
+			renderCallouts(processedLines.join("\n"), mapping.callout),
+			file,
+			profile,
+			adapter,
+			exportedNotes
+		);
+		doc.body = linkResult.content;
+
+		const output = doc.toString();
+
+		let previousContent: string | null = null;
+		try {
+			previousContent = await fs.readFile(contentPath, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				throw error;
+			}
+		}
+
+		const repoPath = relative(profile.repoRoot, contentPath);
+		return {
+			profile,
+			sourcePath: file.path,
+			contentPath,
+			content: output,
+			previousContent,
+			diff: createUnifiedDiff(
+				previousContent ?? "",
+				output,
+				previousContent === null ? "/dev/null" : `a/${repoPath}`,
+				`b/${repoPath}`
+			),
+			images,
+			downgradedLinks: linkResult.downgradedLinks,
+		};
+	}
+
+	// Write a dry run's page and images into the repo
+	async applyDryRun(dryRun: HugoDryRun): Promise<HugoExportResult> {
+		for (const image of dryRun.images) {
+			await this.imagePipeline.writeImage(image);
+		}
+
+		await fs.mkdir(dirname(dryRun.contentPath), { recursive: true });
+		await fs.writeFile(dryRun.contentPath, dryRun.content);
+
+		return {
+			profile: dryRun.profile,
+			sourcePath: dryRun.sourcePath,
+			contentPath: dryRun.contentPath,
+			images: dryRun.images.map((image) => image.destPath),
+			downgradedLinks: dryRun.downgradedLinks,
+		};
+	}
+
+	// A caption is a single line of text right after an image, followed by a
+	// blank line or the end of the note
+	private isCaptionLine(lines: string[], index: number): boolean {
+		if (index >= lines.length) return false;
+		const line = lines[index];
+		if (line.trim() === "" || findMediaEmbeds(line).length > 0) {
+			return false;
+		}
+		return index + 1 >= lines.length || lines[index + 1].trim() === "";
+	}
+
+	// One embed rendered with its template, or the embed unchanged if the
+	// file can't be found or prepared. The file is added to `images` to be
+	// written later.
+	private async exportMedia(
+		embed: MediaEmbed,
+		caption: string,
+		template: string,
+		file: TFile,
+		profile: ExportProfile,
+		images: PlannedImage[]
+	): Promise<string> {
+		const render = (src: string) =>
+			renderShortcode(template, {
+				src,
+				url: embed.target,
+				id: getYouTubeId(embed.target),
+				alt: embed.alt,
+				caption,
+				width: embed.width,
+				height: embed.height,
+			});
+
+		if (!embed.wikilink && isExternalUrl(embed.target)) {
+			return render(embed.target);
+		}
+
+		const mediaFile = resolveMediaFile(this.plugin.app, embed, file.path);
+		if (!mediaFile) {
+			console.error(`File not found in vault: ${embed.target}`);
+			return embed.raw;
+		}
+
+		try {
+			const planned = await this.imagePipeline.planImage(
+				mediaFile,
+				profile
+			);
+			if (!images.some((image) => image.destPath === planned.destPath)) {
+				images.push(planned);
+			}
+			return render(planned.url);
+		} catch (error) {
+			console.error(`Error preparing ${embed.target}:`, error);
+			return embed.raw;
+		}
+	}
+
+	// Delete a note's exported page and any images no other exported note
+	// uses. Returns the repo-relative paths removed.
+	async unexportNote(
+		file: TFile,
+		content: string,
+		profile: ExportProfile
+	): Promise<string[]> {
+		const previous = await readManifest(profile);
+		const { manifest, orphans } = removeManifestEntry(previous, file.path);
+
+		// Notes exported before the manifest existed are found by their path.
+		// The plugin may not have written that file, so ask first.
+		if (!previous.notes[file.path]) {
+			const { contentPath } = this.resolveTarget(file, content, profile);
+			const untracked = relative(profile.repoRoot, contentPath);
+			if (
+				(await pathExists(contentPath)) &&
+				(await this.plugin.confirm({
+					title: `Delete ${untracked}?`,
+					message:
+						"This page isn't in the export manifest, so it may not have been written by the plugin. Delete it anyway?",
+					items: [untracked],
+					confirmText: "Delete",
+				}))
+			) {
+				orphans.contentFiles.push(untracked);
+			}
+		}
+
+		const removed: string[] = [];
+		for (const relativePath of [
+			...orphans.contentFiles,
+			...orphans.images,
+		]) {
+			try {
+				await fs.unlink(join(profile.repoRoot, relativePath));
+				removed.push(relativePath);
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+					throw error;
+				}
+			}
+		}
+
+		await writeManifest(profile, manifest);
+		return removed;
+	}
+
+	// Links to notes exported to the same repo become the adapter's page
+	// links, relrefs on Hugo. Links to anything else are downgraded to plain
+	// text so private titles don't show up as broken links on the site.
+	private async rewriteLinks(
+		content: string,
+		file: TFile,
+		profile: ExportProfile,
+		adapter: SsgAdapter,
+		exportedNotes: Set<string>
+	): Promise<{ content: string; downgradedLinks: string[] }> {
+		const targets = new Map<string, ExportedPage | null>();
+		for (const link of collectWikilinks(content)) {
+			if (link.embed || !link.linkpath || targets.has(link.linkpath)) {
+				continue;
+			}
+			const dest = resolveWikilink(this.plugin.app, link, file.path);
+			targets.set(
+				link.linkpath,
+				dest
+					? await this.getExportedPage(dest, profile, exportedNotes)
+					: null
+			);
+		}
+
+		const downgradedLinks: string[] = [];
+		const rewritten = replaceWikilinks(content, (link) => {
+			if (link.embed) return link.raw;
+
+			const text = getLinkDisplayText(link);
+			const anchor =
+				link.subpath && !link.subpath.startsWith("^")
+					? `#${headingToAnchor(link.subpath)}`
+					: "";
+
+			// Same-page heading links need no page
+			if (!link.linkpath) {
+				return anchor ? `[${text}](${anchor})` : text;
+			}
+
+			const target = targets.get(link.linkpath);
+			if (!target) {
+				downgradedLinks.push(`${file.path}: ${link.raw}`);
+				return text;
+			}
+			return adapter.renderLink(text, target, anchor);
+		});
+
+		return { content: rewritten, downgradedLinks };
+	}
+
+	// The page a note is exported to in this profile's repo, or null if it
+	// isn't exported there
+	private async getExportedPage(
+		file: TFile,
+		profile: ExportProfile,
+		exportedNotes: Set<string>
+	): Promise<ExportedPage | null> {
+		if (
+			file.extension !== "md" ||
+			this.plugin.isDailyNote(file.name) ||
+			!exportedNotes.has(file.path)
+		) {
+			return null;
+		}
+
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const frontmatter = this.plugin.getFrontmatter(content);
+		if (
+			!this.plugin.isPublishable(frontmatter) ||
+			this.resolveProfile(content) !== profile
+		) {
+			return null;
+		}
+
+		// Undated notes aren't exported where the date is in the path
+		const { adapter, page } = this.resolveTarget(file, content, profile);
+		if (
+			needsPageDate(
+				adapter,
+				this.plugin.getFrontmatterString(frontmatter, "date")
+			)
+		) {
+			return null;
+		}
+		return page;
+	}
+}
@@ -0,0 +1,350 @@
+import { App, arrayBufferToHex, TFile } from "obsidian";
+import * as fs from "fs/promises";
+import { dirname } from "path";
+import type MyPlugin from "../main";
+import { resolveEmbeddedFile } from "./assets";
+import { ExportProfile, getStaticPath, getStaticUrl } from "./hugo";
+import { parseWikilink } from "./links";
+
+export const IMAGE_EXTENSIONS = [
+	"png",
+	"jpg",
+	"jpeg",
+	"gif",
+	"webp",
+	"svg",
+	"bmp",
+	"avif",
+];
+
+export const VIDEO_EXTENSIONS = ["mp4", "webm", "ogv", "mov", "mkv"];
+
+export const AUDIO_EXTENSIONS = ["mp3", "wav", "m4a", "ogg", "flac", "webm"];
+
+export type MediaKind = "image" | "video" | "audio" | "youtube";
+
+const YOUTUBE_REGEX =
+	/^https?:\/\/(?:www\.|m\.)?(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/;
+
+// What large images are re-encoded as, "original" keeps their format
+export type ImageFormat = "original" | "webp" | "jpeg";
+
+export const IMAGE_FORMATS: { [format in ImageFormat]: string } = {
+	original: "Keep original format",
+	webp: "WebP",
+	jpeg: "JPEG",
+};
+
+// Formats a canvas can't re-encode without losing something
+const PASSTHROUGH_EXTENSIONS = ["gif", "svg"];
+
+// ![[image.png|alt|300x200]] or ![alt|300](path/to/image.png "title"), and
+// the same for video, audio and YouTube links
+const IMAGE_EMBED_REGEX =
+	/!\[\[([^\]\n]+?)\]\]|!\[([^\]\n]*)\]\(\s*(<[^>\n]*>|[^\s)]+)(?:\s+"([^"\n]*)")?\s*\)/g;
+
+const SIZE_REGEX = /^(\d+)(?:x(\d+))?$/;
+
+// One embedded image or media file in a note, in either embed syntax
+export interface MediaEmbed {
+	raw: string;
+	kind: MediaKind;
+	target: string;
+	alt: string;
+	title: string;
+	width: number | null;
+	height: number | null;
+	wikilink: boolean;
+}
+
+// An image copied into the Hugo repo
+export interface ExportedImage {
+	destPath: string;
+	url: string;
+}
+
+// What exporting does with one image: a new file, a different file already
+// at its path, or the same file already there
+export type ImageAction = "copy" | "overwrite" | "skip";
+
+// An image ready to be written, worked out without touching the repo
+export interface PlannedImage extends ExportedImage {
+	file: TFile;
+	action: ImageAction;
+	// Re-encoded bytes, null when the vault file is copied as it is
+	data: ArrayBuffer | null;
+}
+
+export async function pathExists(path: string): Promise<boolean> {
+	try {
+		await fs.access(path);
+		return true;
+	} catch (error) {
+		return false;
+	}
+}
+
+function getExtension(path: string): string {
+	return (path.split(/[?#]/)[0].split(".").pop() ?? "").toLowerCase();
+}
+
+export function isImagePath(path: string): boolean {
+	return IMAGE_EXTENSIONS.includes(getExtension(path));
+}
+
+export function getYouTubeId(url: string): string | null {
+	const match = url.trim().match(YOUTUBE_REGEX);
+	return match ? match[1] : null;
+}
+
+// Video and audio go by extension, a .webm is taken to be video
+export function getMediaKind(target: string): MediaKind | null {
+	if (getYouTubeId(target)) return "youtube";
+
+	const extension = getExtension(target);
+	if (IMAGE_EXTENSIONS.includes(extension)) return "image";
+	if (VIDEO_EXTENSIONS.includes(extension)) return "video";
+	if (AUDIO_EXTENSIONS.includes(extension)) return "audio";
+	return null;
+}
+
+function getMimeType(extension: string): string {
+	return extension === "jpg" ? "image/jpeg" : `image/${extension}`;
+}
+
+export function isExternalUrl(target: string): boolean {
+	return /^[a-z][a-z0-9+.-]*:/i.test(target);
+}
+
+// Obsidian puts sizes in the last |part: "300" or "300x200"
+function parseSize(parts: string[]): {
+	rest: string[];
+	width: number | null;
+	height: number | null;
+} {
+	const size =
+		parts.length > 0 ? parts[parts.length - 1].match(SIZE_REGEX) : null;
+	if (!size) return { rest: parts, width: null, height: null };
+	return {
+		rest: parts.slice(0, -1),
+		width: parseInt(size[1], 10),
+		height: size[2] ? parseInt(size[2], 10) : null,
+	};
+}
+
+// Every image and media embed on a line, in order
+export function findMediaEmbeds(line: string): MediaEmbed[] {
+	const embeds: MediaEmbed[] = [];
+	IMAGE_EMBED_REGEX.lastIndex = 0;
+
+	let match: RegExpExecArray | null;
+	while ((match = IMAGE_EMBED_REGEX.exec(line)) !== null) {
+		if (match[1] !== undefined) {
+			const link = parseWikilink(match[0]);
+			const kind = link && getMediaKind(link.linkpath);
+			if (!link || !kind) continue;
+
+			const { rest, width, height } = parseSize(
+				link.alias ? link.alias.split("|") : []
+			);
+			embeds.push({
+				raw: match[0],
+				kind,
+				target: link.linkpath,
+				alt: rest.join("|").trim(),
+				title: "",
+				width,
+				height,
+				wikilink: true,
+			});
+		} else {
+			// Remote images often have no extension to go by
+			const target = match[3].replace(/^<|>$/g, "");
+			const kind =
+				getMediaKind(target) ??
+				(isExternalUrl(target) ? "image" : null);
+			if (!kind) continue;
+
+			const { rest, width, height } = parseSize(match[2].split("|"));
+			embeds.push({
+				raw: match[0],
+				kind,
+				target,
+				alt: rest.join("|").trim(),
+				title: match[4] ?? "",
+				width,
+				height,
+				wikilink: false,
+			});
+		}
+	}
+	return embeds;
+}
+
+// Hugo shortcode parameters are double-quoted strings with backslash escapes
+export function escapeShortcodeParam(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\s*\n\s*/g, " ");
+}
+
+// A markdown image path is relative to the note and may be percent-encoded
+export function resolveMediaFile(
+	app: App,
+	embed: MediaEmbed,
+	sourcePath: string
+): TFile | null {
+	if (embed.wikilink) {
+		return resolveEmbeddedFile(app, embed.target, sourcePath);
+	}
+	if (isExternalUrl(embed.target)) return null;
+
+	let target = embed.target;
+	try {
+		target = decodeURI(target);
+	} catch (error) {
+		// Not percent-encoded after all
+	}
+
+	const folder = sourcePath.includes("/")
+		? sourcePath.slice(0, sourcePath.lastIndexOf("/"))
+		: "";
+	const relative = app.vault.getAbstractFileByPath(
+		folder ? `${folder}/${target}` : target
+	);
+	if (relative instanceof TFile) return relative;
+	return resolveEmbeddedFile(app, target, sourcePath);
+}
+
+// Copies images and media into a profile's static dir, resizing and
+// re-encoding large images when the profile asks for it
+export class HugoImagePipeline {
+	plugin: MyPlugin;
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	// Resize and name an image and check what's already in the repo, without
+	// writing anything
+	async planImage(
+		file: TFile,
+		profile: ExportProfile
+	): Promise<PlannedImage> {
+		const processed = await this.process(file, profile);
+		// Resized images are named by their bytes, copies by their vault path,
+		// so same-named attachments elsewhere in the vault don't overwrite
+		// each other and private folder names never reach the site
+		const assetName = processed
+			? processed.name
+			: await this.getCopyName(file);
+		const destPath = getStaticPath(profile, assetName);
+
+		let action: ImageAction;
+		if (processed) {
+			// Hashed names mean an existing file already has these bytes
+			action = (await pathExists(destPath)) ? "skip" : "copy";
+		} else if (
+			await this.plugin.fileExistsWithSameSize(
+				this.plugin.getVaultFilePath(file),
+				destPath
+			)
+		) {
+			action = "skip";
+		} else {
+			action = (await pathExists(destPath)) ? "overwrite" : "copy";
+		}
+
+		return {
+			file,
+			destPath,
+			url: getStaticUrl(profile, encodeURI(assetName)),
+			action,
+			data: processed ? processed.data : null,
+		};
+	}
+
+	private async getCopyName(file: TFile): Promise<string> {
+		const hash = arrayBufferToHex(
+			await crypto.subtle.digest(
+				"SHA-256",
+				new TextEncoder().encode(file.path)
+			)
+		).slice(0, 8);
+		return `${file.basename}-${hash}.${file.extension}`;
+	}
+
+	async writeImage(image: PlannedImage) {
+		if (image.action === "skip") return;
+
+		await fs.mkdir(dirname(image.destPath), { recursive: true });
+		if (image.data) {
+			await fs.writeFile(image.destPath, new Uint8Array(image.data));
+			console.log(`Wrote resized image: ${image.destPath}`);
+		} else {
+			await fs.copyFile(
+				this.plugin.getVaultFilePath(image.file),
+				image.destPath
+			);
+			console.log(`Copied image: ${image.file.name}`);
+		}
+	}
+
+	// Re-encoded image data and its content-hashed name, or null when the
+	// image should be copied as it is
+	private async process(
+		file: TFile,
+		profile: ExportProfile
+	): Promise<{ name: string; data: ArrayBuffer } | null> {
+		const maxWidth = profile.imageMaxWidth ?? 0;
+		const format = profile.imageFormat ?? "original";
+		const extension = file.extension.toLowerCase();
+		if (
+			(maxWidth <= 0 && format === "original") ||
+			!isImagePath(file.name) ||
+			PASSTHROUGH_EXTENSIONS.includes(extension)
+		) {
+			return null;
+		}
+
+		const source = await this.plugin.app.vault.readBinary(file);
+		const bitmap = await createImageBitmap(new Blob([source]));
+		const scale =
+			maxWidth > 0 && bitmap.width > maxWidth
+				? maxWidth / bitmap.width
+				: 1;
+		if (scale === 1 && format === "original") {
+			bitmap.close();
+			return null;
+		}
+
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.round(bitmap.width * scale);
+		canvas.height = Math.round(bitmap.height * scale);
+		canvas
+			.getContext("2d")
+			?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+		bitmap.close();
+
+		const mimeType = getMimeType(
+			format === "original" ? extension : format
+		);
+		const blob = await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, mimeType, profile.imageQuality ?? 0.85)
+		);
+		if (!blob) {
+			throw new Error(`Couldn't encode ${file.path} as ${mimeType}`);
+		}
+
+		const data = await blob.arrayBuffer();
+		const hash = arrayBufferToHex(
+			await crypto.subtle.digest("SHA-256", data)
+		).slice(0, 12);
+		const outputExtension =
+			blob.type === "image/jpeg"
+				? "jpg"
+				: blob.type.replace("image/", "");
+		return { name: `${file.basename}-${hash}.${outputExtension}`, data };
+	}
+}
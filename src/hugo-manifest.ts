@@ -0,0 +1,170 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { ExportProfile } from "./hugo";
+import type { HugoExportResult } from "./hugo-exporter";
+
+// Written to the root of each Hugo repo so later exports know what they own
+export const MANIFEST_FILENAME = ".obsidian-export.json";
+
+// Paths are relative to the repo root so the manifest survives a moved checkout
+export interface ManifestEntry {
+	contentPath: string;
+	images: string[];
+	// What earlier exports of the note wrote that the latest one didn't,
+	// tracked until it's cleaned up
+	stale?: { contentFiles: string[]; images: string[] };
+}
+
+export interface ExportManifest {
+	notes: { [sourcePath: string]: ManifestEntry };
+}
+
+export interface ManifestOrphans {
+	notes: string[];
+	contentFiles: string[];
+	images: string[];
+}
+
+function getManifestPath(profile: ExportProfile): string {
+	return path.join(profile.repoRoot, MANIFEST_FILENAME);
+}
+
+export async function readManifest(
+	profile: ExportProfile
+): Promise<ExportManifest> {
+	try {
+		const raw = await fs.readFile(getManifestPath(profile), "utf8");
+		const manifest = JSON.parse(raw) as ExportManifest;
+		return { notes: manifest.notes ?? {} };
+	} catch (error) {
+		return { notes: {} }; // First export into this repo
+	}
+}
+
+export async function writeManifest(
+	profile: ExportProfile,
+	manifest: ExportManifest
+): Promise<void> {
+	await fs.writeFile(
+		getManifestPath(profile),
+		JSON.stringify(manifest, null, "\t"),
+		"utf8"
+	);
+}
+
+export function buildManifest(
+	profile: ExportProfile,
+	results: HugoExportResult[]
+): ExportManifest {
+	const manifest: ExportManifest = { notes: {} };
+	for (const result of results) {
+		manifest.notes[result.sourcePath] = {
+			contentPath: path.relative(profile.repoRoot, result.contentPath),
+			images: result.images.map((image) =>
+				path.relative(profile.repoRoot, image)
+			),
+		};
+	}
+	return manifest;
+}
+
+// Anything the previous export produced that the current one didn't. This
+// covers unpublished and deleted notes as well as notes that moved section.
+export function findOrphans(
+	previous: ExportManifest,
+	current: ExportManifest
+): ManifestOrphans {
+	const currentContent = new Set<string>();
+	const currentImages = new Set<string>();
+	for (const sourcePath in current.notes) {
+		const entry = current.notes[sourcePath];
+		currentContent.add(entry.contentPath);
+		entry.images.forEach((image) => currentImages.add(image));
+	}
+
+	const orphans: ManifestOrphans = {
+		notes: [],
+		contentFiles: [],
+		images: [],
+	};
+	for (const sourcePath in previous.notes) {
+		const entry = previous.notes[sourcePath];
+		if (!current.notes[sourcePath]) {
+			orphans.notes.push(sourcePath);
+		}
+		for (const contentPath of getEntryContentFiles(entry)) {
+			if (
+				!currentContent.has(contentPath) &&
+				!orphans.contentFiles.includes(contentPath)
+			) {
+				orphans.contentFiles.push(contentPath);
+			}
+		}
+		for (const image of getEntryImages(entry)) {
+			if (!currentImages.has(image) && !orphans.images.includes(image)) {
+				orphans.images.push(image);
+			}
+		}
+	}
+	return orphans;
+}
+
+function getEntryContentFiles(entry: ManifestEntry): string[] {
+	return [entry.contentPath, ...(entry.stale?.contentFiles ?? [])];
+}
+
+function getEntryImages(entry: ManifestEntry): string[] {
+	return [...entry.images, ...(entry.stale?.images ?? [])];
+}
+
+// Keep tracking orphans that weren't deleted, so a later export offers them
+// again. Removed notes keep their whole entry, the rest keep what they left
+// behind as stale.
+export function keepOrphans(
+	previous: ExportManifest,
+	current: ExportManifest,
+	orphans: ManifestOrphans
+): void {
+	for (const sourcePath in previous.notes) {
+		const entry = previous.notes[sourcePath];
+		const currentEntry = current.notes[sourcePath];
+		if (!currentEntry) {
+			current.notes[sourcePath] = entry;
+			continue;
+		}
+
+		const contentFiles = getEntryContentFiles(entry).filter((file) =>
+			orphans.contentFiles.includes(file)
+		);
+		const images = getEntryImages(entry).filter((image) =>
+			orphans.images.includes(image)
+		);
+		if (contentFiles.length || images.length) {
+			currentEntry.stale = { contentFiles, images };
+		}
+	}
+}
+
+export async function deleteOrphans(
+	profile: ExportProfile,
+	orphans: ManifestOrphans
+): Promise<void> {
+	for (const relativePath of [...orphans.contentFiles, ...orphans.images]) {
+		try {
+			await fs.unlink(path.join(profile.repoRoot, relativePath));
+		} catch (error) {
+			console.error(`Error deleting ${relativePath}:`, error);
+		}
+	}
+}
+
+// What removing a single note from the manifest would leave behind. Images
+// still used by another exported note are kept.
+export function removeManifestEntry(
+	manifest: ExportManifest,
+	sourcePath: string
+): { manifest: ExportManifest; orphans: ManifestOrphans } {
+	const remaining: ExportManifest = { notes: { ...manifest.notes } };
+	delete remaining.notes[sourcePath];
+	return { manifest: remaining, orphans: findOrphans(manifest, remaining) };
+}
@@ -0,0 +1,132 @@
+import { escapeShortcodeParam } from "./hugo-images";
+
+// How exported media and callouts are written out. Templates are Hugo
+// shortcodes or raw HTML with {name} placeholders, and {?name: ...} groups
+// that are only kept when `name` has a value.
+export interface ShortcodeMapping {
+	// One image: src, alt, caption, width, height
+	image: string;
+	// Two or more images alone on a line: images, caption
+	gallery: string;
+	// Each image inside a gallery, same placeholders as image
+	galleryImage: string;
+	// A callout block: type, title, content. Empty leaves callouts as markdown.
+	callout: string;
+	// Video and audio files: src, caption
+	video: string;
+	audio: string;
+	// YouTube embeds: id, url, caption
+	youtube: string;
+}
+
+export const SHORTCODE_KINDS: { [kind in keyof ShortcodeMapping]: string } = {
+	image: "Image",
+	gallery: "Gallery",
+	galleryImage: "Gallery Image",
+	callout: "Callout",
+	video: "Video",
+	audio: "Audio",
+	youtube: "YouTube",
+};
+
+const FIGURE_TEMPLATE =
+	'{{<figure src="{src}"{?alt: alt="{alt}"} caption="{caption}"{?width: width="{width}"}{?height: height="{height}"}>}}';
+
+export const DEFAULT_SHORTCODE_MAPPING: ShortcodeMapping = {
+	image: FIGURE_TEMPLATE,
+	gallery: "{images}",
+	galleryImage: FIGURE_TEMPLATE,
+	callout: "",
+	video: '<video controls src="{src}"{?caption: title="{caption}"}></video>',
+	audio: '<audio controls src="{src}"{?caption: title="{caption}"}></audio>',
+	youtube: "{{< youtube {id} >}}",
+};
+
+// Placeholders holding already rendered markup, never escaped
+const RAW_VALUES = ["images", "content"];
+
+const OPTIONAL_REGEX = /\{\?(\w+):((?:[^{}]|\{\w+\})*)\}/g;
+const PLACEHOLDER_REGEX = /\{(\w+)\}/g;
+const CALLOUT_REGEX = /^>\s*\[!([\w-]+)\][+-]?\s*(.*)$/;
+
+export type ShortcodeValues = { [name: string]: string | number | null };
+
+// Empty templates in a profile fall back to the adapter's defaults
+export function getShortcodeMapping(
+	overrides: Partial<ShortcodeMapping> | undefined,
+	defaults: ShortcodeMapping = DEFAULT_SHORTCODE_MAPPING
+): ShortcodeMapping {
+	const mapping = { ...defaults };
+	let kind: keyof ShortcodeMapping;
+	for (kind in mapping) {
+		const template = overrides?.[kind];
+		if (template && template.trim()) mapping[kind] = template;
+	}
+	return mapping;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// Fill in a template. Values are escaped for shortcode parameters when the
+// template is a shortcode, and for HTML attributes otherwise.
+export function renderShortcode(
+	template: string,
+	values: ShortcodeValues
+): string {
+	const isShortcode = /^\s*\{\{[<%]/.test(template);
+	const valueOf = (name: string): string => {
+		const value = values[name];
+		if (value === null || value === undefined) return "";
+		const text = String(value);
+		if (RAW_VALUES.includes(name)) return text;
+		return isShortcode ? escapeShortcodeParam(text) : escapeHtml(text);
+	};
+
+	return template
+		.replace(OPTIONAL_REGEX, (group, name: string, body: string) =>
+			valueOf(name) ? body : ""
+		)
+		.replace(PLACEHOLDER_REGEX, (placeholder, name: string) =>
+			name in values ? valueOf(name) : placeholder
+		);
+}
+
+// Replace callout blocks with the callout template, one level of "> "
+// stripped from their content. Blocks in fenced code are left alone.
+export function renderCallouts(body: string, template: string): string {
+	if (!template) return body;
+
+	const lines = body.split("\n");
+	const output: string[] = [];
+	let inFence = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+		const match = inFence ? null : line.match(CALLOUT_REGEX);
+		if (!match) {
+			output.push(line);
+			continue;
+		}
+
+		const content: string[] = [];
+		while (i + 1 < lines.length && lines[i + 1].startsWith(">")) {
+			content.push(lines[++i].replace(/^> ?/, ""));
+		}
+		output.push(
+			renderShortcode(template, {
+				type: match[1].toLowerCase(),
+				title: match[2].trim(),
+				content: content.join("\n"),
+			})
+		);
+	}
+	return output.join("\n");
+}
@@ -0,0 +1,120 @@
+import * as path from "path";
+import type { ImageFormat } from "./hugo-images";
+import type { ShortcodeMapping } from "./hugo-shortcodes";
+import type { SsgAdapterKind } from "./ssg-adapters";
+
+// Maps every note under `folder` in the vault to a Hugo content section
+export interface SectionRule {
+	folder: string;
+	section: string;
+}
+
+// A named Hugo checkout that notes can be exported into
+export interface ExportProfile {
+	name: string;
+	// Static site generator the repo is built with
+	adapter: SsgAdapterKind;
+	repoRoot: string;
+	contentSection: string;
+	staticDir: string;
+	staticUrlPrefix: string;
+	sectionRules: SectionRule[];
+	// Base URL of the built site, for linking to exported pages
+	siteUrl: string;
+	// Wider images are scaled down, 0 copies them as they are
+	imageMaxWidth: number;
+	imageFormat: ImageFormat;
+	imageQuality: number;
+	// Templates for media and callouts, empty ones use the defaults
+	shortcodes: Partial<ShortcodeMapping>;
+}
+
+export const DEFAULT_EXPORT_PROFILE: ExportProfile = {
+	name: "default",
+	adapter: "hugo",
+	repoRoot: "",
+	contentSection: "posts",
+	staticDir: "static",
+	staticUrlPrefix: "/",
+	sectionRules: [],
+	siteUrl: "",
+	imageMaxWidth: 0,
+	imageFormat: "original",
+	imageQuality: 0.85,
+	shortcodes: {},
+};
+
+// The named profile, or the first one when no name is given. A name that
+// matches nothing is null so a typo never exports into another repo.
+export function findExportProfile(
+	profiles: ExportProfile[],
+	name: string | undefined
+): ExportProfile | null {
+	if (name) {
+		return profiles.find((profile) => profile.name === name) ?? null;
+	}
+	return profiles[0] ?? null;
+}
+
+// Resolve which content section a note belongs in. Frontmatter wins, then the
+// most specific folder rule, then the profile default. "/" means the root of
+// content/ rather than a section folder.
+export function resolveSection(
+	profile: ExportProfile,
+	notePath: string,
+	frontmatterSection: string | undefined
+): string {
+	if (frontmatterSection) {
+		return normalizeSection(frontmatterSection);
+	}
+
+	let best: SectionRule | null = null;
+	for (const rule of profile.sectionRules) {
+		const folder = rule.folder.replace(/^\/+|\/+$/g, "");
+		if (folder && !notePath.startsWith(`${folder}/`)) continue;
+		if (!best || folder.length > best.folder.length) {
+			best = { folder, section: rule.section };
+		}
+	}
+
+	return normalizeSection(best ? best.section : profile.contentSection);
+}
+
+function normalizeSection(section: string): string {
+	return section.trim().replace(/^\/+|\/+$/g, "");
+}
+
+export function slugifyFilename(filename: string): string {
+	return filename.replace(/\s+/g, "-").toLowerCase();
+}
+
+export function getStaticPath(
+	profile: ExportProfile,
+	assetName: string
+): string {
+	return path.join(profile.repoRoot, profile.staticDir, assetName);
+}
+
+export function getStaticUrl(
+	profile: ExportProfile,
+	assetName: string
+): string {
+	const prefix = profile.staticUrlPrefix.replace(/\/+$/, "");
+	return `${prefix}/${assetName}`;
+}
+
+// Section rules are edited as one "folder: section" pair per line
+export function parseSectionRules(value: string): SectionRule[] {
+	return value
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.includes(":"))
+		.map((line) => {
+			const [folder, ...rest] = line.split(":");
+			return { folder: folder.trim(), section: rest.join(":").trim() };
+		});
+}
+
+export function formatSectionRules(rules: SectionRule[]): string {
+	return rules.map((rule) => `${rule.folder}: ${rule.section}`).join("\n");
+}
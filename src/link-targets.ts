@@ -0,0 +1,147 @@
+import { TFile } from "obsidian";
+import * as path from "path";
+import type MyPlugin from "../main";
+import { Frontmatter } from "./frontmatter";
+import { findExportProfile } from "./hugo";
+import {
+	collectWikilinks,
+	headingToAnchor,
+	resolveWikilink,
+	Wikilink,
+} from "./links";
+import { NOTES_SITE_URL_KEY } from "./notes-site";
+import { resolvePage, resolveSsgAdapter } from "./ssg-adapters";
+
+// What links in an exported page point at
+export type LinkTargetMode = "obsidian" | "published" | "relative";
+
+export const LINK_TARGET_MODES: { [mode in LinkTargetMode]: string } = {
+	obsidian: "Obsidian (obsidian:// URI)",
+	published: "Published notes.site or Hugo URL",
+	relative: "Other exported HTML files",
+};
+
+// Opens the note, and the heading or block if there is one, in this vault
+export function getObsidianUri(
+	vaultName: string,
+	filePath: string,
+	subpath = ""
+): string {
+	const file = subpath ? `${filePath}#${subpath}` : filePath;
+	return `obsidian://open?vault=${encodeURIComponent(
+		vaultName
+	)}&file=${encodeURIComponent(file)}`;
+}
+
+function getAnchor(link: Wikilink): string {
+	return link.subpath && !link.subpath.startsWith("^")
+		? `#${headingToAnchor(link.subpath)}`
+		: "";
+}
+
+// Works out where a wikilink in an exported page should go
+export class LinkTargetResolver {
+	plugin: MyPlugin;
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	// The href for a link, or null when it has nowhere to go and should be
+	// rendered as text. outputPath is the HTML file being written, and
+	// publishedUrls comes from getPublishedUrls in published mode.
+	getHref(
+		link: Wikilink,
+		sourcePath: string,
+		mode: LinkTargetMode,
+		outputPath: string,
+		publishedUrls: Map<string, string | null>
+	): string | null {
+		const { app } = this.plugin;
+		const dest = resolveWikilink(app, link, sourcePath);
+
+		if (mode === "obsidian") {
+			// Unresolved links still open, Obsidian offers to create the note
+			return getObsidianUri(
+				app.vault.getName(),
+				dest ? dest.path : link.linkpath,
+				link.subpath
+			);
+		}
+
+		if (!dest) return null;
+		if (!link.linkpath) return getAnchor(link) || null;
+
+		if (mode === "published") {
+			const url = publishedUrls.get(dest.path) ?? null;
+			return url ? `${url}${getAnchor(link)}` : null;
+		}
+
+		const dashboard = this.plugin.getDashboardsForFile(dest)[0];
+		if (!dashboard) return null;
+		const relativePath = path
+			.relative(path.dirname(outputPath), dashboard.outputPath)
+			.split(path.sep)
+			.join("/");
+		return `${encodeURI(relativePath)}${getAnchor(link)}`;
+	}
+
+	// Where a note lives once published: its notes.site post if it has one,
+	// otherwise its page on the exported site
+	async getPublishedUrl(file: TFile): Promise<string | null> {
+		const { app, settings } = this.plugin;
+		const frontmatter: Frontmatter | null = this.plugin.getFrontmatter(
+			await app.vault.cachedRead(file)
+		);
+
+		const notesSiteUrl = this.plugin.getFrontmatterString(
+			frontmatter,
+			NOTES_SITE_URL_KEY
+		);
+		if (notesSiteUrl) return notesSiteUrl;
+
+		if (
+			this.plugin.isDailyNote(file.name) ||
+			!this.plugin.isPublishable(frontmatter)
+		) {
+			return null;
+		}
+
+		const profile = findExportProfile(
+			settings.exportProfiles,
+			this.plugin.getFrontmatterString(frontmatter, "export_profile") ||
+				settings.defaultExportProfile
+		);
+		if (!profile || !profile.siteUrl) return null;
+
+		const adapter = resolveSsgAdapter(
+			profile,
+			this.plugin.getFrontmatterString(frontmatter, "export_adapter")
+		);
+		const page = resolvePage(
+			profile,
+			file,
+			this.plugin.getFrontmatterString(frontmatter, "section"),
+			this.plugin.getFrontmatterString(frontmatter, "date")
+		);
+		const base = profile.siteUrl.replace(/\/+$/, "");
+		return `${base}${adapter.getPageUrl(page)}`;
+	}
+
+	// Published URLs of every note linked from content, keyed by path.
+	// Rendering is synchronous, so they're looked up ahead of time.
+	async getPublishedUrls(
+		content: string,
+		sourcePath: string
+	): Promise<Map<string, string | null>> {
+		const urls = new Map<string, string | null>();
+		for (const link of collectWikilinks(content)) {
+			const dest = resolveWikilink(this.plugin.app, link, sourcePath);
+			if (!dest || dest.extension !== "md" || urls.has(dest.path)) {
+				continue;
+			}
+			urls.set(dest.path, await this.getPublishedUrl(dest));
+		}
+		return urls;
+	}
+}
@@ -0,0 +1,95 @@
+import { App, TFile } from "obsidian";
+
+// Matches [[Note]], [[Note|alias]], [[Note#Heading]] and their ![[embed]] forms
+export const WIKILINK_REGEX = /(!?)\[\[([^\]\n]+?)\]\]/g;
+
+export interface Wikilink {
+	raw: string;
+	embed: boolean;
+	linkpath: string;
+	subpath: string;
+	alias: string | null;
+}
+
+export function parseWikilink(raw: string): Wikilink | null {
+	const match = raw.match(/^(!?)\[\[([^\]\n]+?)\]\]$/);
+	if (!match) return null;
+
+	const [target, ...aliasParts] = match[2].split("|");
+	const hashIndex = target.indexOf("#");
+	return {
+		raw,
+		embed: match[1] === "!",
+		linkpath: (hashIndex >= 0 ? target.slice(0, hashIndex) : target).trim(),
+		subpath: hashIndex >= 0 ? target.slice(hashIndex + 1).trim() : "",
+		alias: aliasParts.length ? aliasParts.join("|").trim() : null,
+	};
+}
+
+// The text Obsidian shows for a link in reading view
+export function getLinkDisplayText(link: Wikilink): string {
+	if (link.alias) return link.alias;
+	if (!link.subpath) return link.linkpath;
+
+	const subpath = link.subpath.replace(/^\^/, "").replace(/#/g, " > ");
+	return link.linkpath ? `${link.linkpath} > ${subpath}` : subpath;
+}
+
+// Heading anchor the way Hugo's default goldmark renderer generates it
+export function headingToAnchor(heading: string): string {
+	return heading
+		.trim()
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}\s_-]/gu, "")
+		.replace(/\s/g, "-");
+}
+
+// Replace every wikilink outside fenced code blocks and frontmatter. The
+// replacer gets each parsed link and returns the text to put in its place.
+export function replaceWikilinks(
+	content: string,
+	replacer: (link: Wikilink) => string
+): string {
+	const frontmatterMatch = content.match(/^---\n[\s\S]*?\n---(\n|$)/);
+	const frontmatter = frontmatterMatch ? frontmatterMatch[0] : "";
+	const lines = content.slice(frontmatter.length).split("\n");
+
+	let inFence = false;
+	const processed = lines.map((line) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			return line;
+		}
+		if (inFence) return line;
+
+		return line.replace(WIKILINK_REGEX, (raw) => {
+			const link = parseWikilink(raw);
+			return link ? replacer(link) : raw;
+		});
+	});
+
+	return frontmatter + processed.join("\n");
+}
+
+export function collectWikilinks(content: string): Wikilink[] {
+	const links: Wikilink[] = [];
+	replaceWikilinks(content, (link) => {
+		links.push(link);
+		return link.raw;
+	});
+	return links;
+}
+
+// Resolve a link to a vault file through the metadata cache. Links without a
+// linkpath ([[#Heading]]) point at the source note itself.
+export function resolveWikilink(
+	app: App,
+	link: Wikilink,
+	sourcePath: string
+): TFile | null {
+	if (!link.linkpath) {
+		const source = app.vault.getAbstractFileByPath(sourcePath);
+		return source instanceof TFile ? source : null;
+	}
+	return app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+}
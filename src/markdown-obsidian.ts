@@ -0,0 +1,296 @@
+import markdownit from "markdown-it";
+import katex from "katex";
+import { stripObsidianComments } from "./redaction";
+
+type StateCore = markdownit.StateCore;
+type StateBlock = markdownit.StateBlock;
+type StateInline = markdownit.StateInline;
+type Token = markdownit.Token;
+
+const CALLOUT_REGEX = /^\[!([\w-]+)\]([+-]?)[ \t]*(.*)$/;
+const TASK_REGEX = /^\[([ xX/-])\][ \t]+/;
+const TAG_REGEX = /^#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/u;
+
+const KATEX_STYLESHEET = `<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css">\n`;
+
+// %%comments%% never leave the vault
+function stripComments(state: StateCore) {
+	state.src = stripObsidianComments(state.src);
+}
+
+// > [!note] Title blocks become callout divs the way reading view draws them
+function callouts(state: StateCore) {
+	const tokens = state.tokens;
+	for (let i = 0; i < tokens.length; i++) {
+		if (tokens[i].type !== "blockquote_open") continue;
+
+		const paragraph = tokens[i + 1];
+		const inline = tokens[i + 2];
+		if (paragraph?.type !== "paragraph_open" || inline?.type !== "inline") {
+			continue;
+		}
+
+		const [firstLine, ...rest] = inline.content.split("\n");
+		const match = firstLine.match(CALLOUT_REGEX);
+		if (!match) continue;
+
+		const [, type, fold, title] = match;
+		const open = tokens[i];
+		open.tag = "div";
+		open.attrSet("class", "callout");
+		open.attrSet("data-callout", type.toLowerCase());
+		if (fold) {
+			open.attrSet("data-callout-fold", fold);
+		}
+
+		// Find the matching close, skipping nested blockquotes
+		let depth = 0;
+		let close = i;
+		for (let j = i; j < tokens.length; j++) {
+			if (tokens[j].type === "blockquote_open") depth++;
+			if (tokens[j].type === "blockquote_close" && --depth === 0) {
+				close = j;
+				break;
+			}
+		}
+		tokens[close].tag = "div";
+
+		const titleOpen = new state.Token("callout_title_open", "div", 1);
+		titleOpen.attrSet("class", "callout-title");
+		const titleInline = new state.Token("inline", "", 0);
+		titleInline.content =
+			title || type.charAt(0).toUpperCase() + type.slice(1);
+		titleInline.children = [];
+		const titleClose = new state.Token("callout_title_close", "div", -1);
+
+		const contentOpen = new state.Token("callout_content_open", "div", 1);
+		contentOpen.attrSet("class", "callout-content");
+		const contentClose = new state.Token(
+			"callout_content_close",
+			"div",
+			-1
+		);
+
+		// The first line was the callout header, the rest is body text
+		inline.content = rest.join("\n");
+		if (!inline.content.trim()) {
+			paragraph.hidden = true;
+			tokens[i + 3].hidden = true;
+		}
+
+		tokens.splice(close, 0, contentClose);
+		tokens.splice(
+			i + 1,
+			0,
+			titleOpen,
+			titleInline,
+			titleClose,
+			contentOpen
+		);
+	}
+}
+
+// - [ ] and - [x] list items render as (disabled) checkboxes
+function taskLists(state: StateCore) {
+	const tokens = state.tokens;
+	for (let i = 2; i < tokens.length; i++) {
+		const inline = tokens[i];
+		if (
+			inline.type !== "inline" ||
+			tokens[i - 1].type !== "paragraph_open" ||
+			tokens[i - 2].type !== "list_item_open"
+		) {
+			continue;
+		}
+
+		const first = inline.children?.[0];
+		const match = first?.type === "text" && first.content.match(TASK_REGEX);
+		if (!first || !match) continue;
+
+		const status = match[1];
+		first.content = first.content.slice(match[0].length);
+
+		const checkbox = new state.Token("html_inline", "", 0);
+		checkbox.content = `<input type="checkbox" class="task-list-item-checkbox" disabled${
+			status === " " ? "" : " checked"
+		}> `;
+		inline.children?.unshift(checkbox);
+
+		const item = tokens[i - 2];
+		item.attrJoin("class", "task-list-item");
+		if (status !== " ") {
+			item.attrJoin("class", "is-checked");
+		}
+		item.attrSet("data-task", status);
+	}
+}
+
+// ==highlighted text==
+function highlight(state: StateInline, silent: boolean): boolean {
+	const start = state.pos;
+	if (
+		state.src.charCodeAt(start) !== 0x3d ||
+		state.src.charCodeAt(start + 1) !== 0x3d ||
+		state.src.charCodeAt(start + 2) === 0x3d
+	) {
+		return false;
+	}
+
+	const end = state.src.indexOf("==", start + 2);
+	if (end < 0 || end > state.posMax - 2 || end === start + 2) return false;
+	if (/\s/.test(state.src[start + 2]) || /\s/.test(state.src[end - 1])) {
+		return false;
+	}
+
+	if (!silent) {
+		const max = state.posMax;
+		state.push("mark_open", "mark", 1);
+		state.pos = start + 2;
+		state.posMax = end;
+		state.md.inline.tokenize(state);
+		state.push("mark_close", "mark", -1);
+		state.posMax = max;
+	}
+	state.pos = end + 2;
+	return true;
+}
+
+// #tags, but only at the start of a word so URLs and headings are untouched
+function tag(state: StateInline, silent: boolean): boolean {
+	const start = state.pos;
+	if (state.src.charCodeAt(start) !== 0x23) return false;
+	if (start > 0 && !/\s/.test(state.src[start - 1])) return false;
+
+	const match = state.src.slice(start, state.posMax).match(TAG_REGEX);
+	if (!match) return false;
+
+	if (!silent) {
+		const token = state.push("obsidian_tag", "a", 0);
+		token.content = match[1];
+	}
+	state.pos += match[0].length;
+	return true;
+}
+
+// $inline$ math, following Obsidian's rule that the dollars hug the formula
+function mathInline(state: StateInline, silent: boolean): boolean {
+	const start = state.pos;
+	if (
+		state.src.charCodeAt(start) !== 0x24 ||
+		state.src.charCodeAt(start + 1) === 0x24 ||
+		/\s/.test(state.src[start + 1] ?? " ")
+	) {
+		return false;
+	}
+
+	let end = start + 1;
+	while ((end = state.src.indexOf("$", end)) !== -1) {
+		if (end >= state.posMax) return false;
+		if (
+			state.src[end - 1] !== "\\" &&
+			!/\s/.test(state.src[end - 1]) &&
+			!/\d/.test(state.src[end + 1] ?? "")
+		) {
+			break;
+		}
+		end++;
+	}
+	if (end === -1) return false;
+
+	if (!silent) {
+		const token = state.push("math_inline", "", 0);
+		token.content = state.src.slice(start + 1, end);
+	}
+	state.pos = end + 1;
+	return true;
+}
+
+// $$ display math $$, on its own lines or a single line
+function mathBlock(
+	state: StateBlock,
+	startLine: number,
+	endLine: number,
+	silent: boolean
+): boolean {
+	const lineStart = state.bMarks[startLine] + state.tShift[startLine];
+	const firstLine = state.src.slice(lineStart, state.eMarks[startLine]);
+	if (!firstLine.startsWith("$$")) return false;
+	if (silent) return true;
+
+	const lines = [firstLine.slice(2)];
+	let line = startLine;
+	let closed = lines[0].trimEnd().endsWith("$$");
+	if (closed) {
+		lines[0] = lines[0].trimEnd().slice(0, -2);
+	}
+
+	while (!closed && ++line < endLine) {
+		const text = state.src.slice(
+			state.bMarks[line] + state.tShift[line],
+			state.eMarks[line]
+		);
+		if (text.trimEnd().endsWith("$$")) {
+			lines.push(text.trimEnd().slice(0, -2));
+			closed = true;
+		} else {
+			lines.push(text);
+		}
+	}
+
+	const token = state.push("math_block", "", 0);
+	token.content = lines.join("\n").trim();
+	token.block = true;
+	token.map = [startLine, line + 1];
+	state.line = line + 1;
+	return true;
+}
+
+function renderMath(source: string, displayMode: boolean): string {
+	return katex.renderToString(source, {
+		displayMode,
+		throwOnError: false,
+		output: "htmlAndMathml",
+	});
+}
+
+// KaTeX markup needs its stylesheet, so pages with math pull it in once
+function mathStylesheet(state: StateCore) {
+	const hasMath = state.tokens.some(
+		(token) =>
+			token.type === "math_block" ||
+			!!token.children?.some((child) => child.type === "math_inline")
+	);
+	if (hasMath) {
+		const link = new state.Token("html_block", "", 0);
+		link.content = KATEX_STYLESHEET;
+		state.tokens.unshift(link);
+	}
+}
+
+// Callouts, highlights, comments, task lists, tags and math rendered the way
+// Obsidian's reading view does
+export function obsidianMarkdown(md: markdownit) {
+	md.core.ruler.after("normalize", "obsidian_comments", stripComments);
+	md.core.ruler.after("block", "obsidian_callouts", callouts);
+	md.core.ruler.after("inline", "obsidian_task_lists", taskLists);
+	md.core.ruler.push("obsidian_math_stylesheet", mathStylesheet);
+
+	md.inline.ruler.before("emphasis", "obsidian_highlight", highlight);
+	md.inline.ruler.before("emphasis", "obsidian_tag", tag);
+	md.inline.ruler.after("escape", "obsidian_math_inline", mathInline);
+	md.block.ruler.after("blockquote", "obsidian_math_block", mathBlock, {
+		alt: ["paragraph", "reference", "blockquote", "list"],
+	});
+
+	md.renderer.rules.obsidian_tag = (tokens: Token[], idx: number) => {
+		const name = md.utils.escapeHtml(tokens[idx].content);
+		return `<a href="#${name}" class="tag">#${name}</a>`;
+	};
+	md.renderer.rules.math_inline = (tokens: Token[], idx: number) =>
+		renderMath(tokens[idx].content, false);
+	md.renderer.rules.math_block = (tokens: Token[], idx: number) =>
+		`<div class="math math-block">${renderMath(
+			tokens[idx].content,
+			true
+		)}</div>\n`;
+}
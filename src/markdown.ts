@@ -0,0 +1,95 @@
+import markdownit from "markdown-it";
+import { Token } from "markdown-it";
+import footnote from "markdown-it-footnote";
+import hljs from "highlight.js/lib/common";
+import { parseWikilink, Wikilink } from "./links";
+import { obsidianMarkdown } from "./markdown-obsidian";
+
+export interface MarkdownRendererOptions {
+	// Where a [text]([[Note]]) link goes, null leaves the href untouched
+	resolveWikilink?: (link: Wikilink) => string | null;
+}
+
+// Fenced code is highlighted at build time so pages need no script
+function highlightCode(code: string, lang: string): string {
+	if (!lang || !hljs.getLanguage(lang)) return "";
+	try {
+		return hljs.highlight(code, { language: lang, ignoreIllegals: true })
+			.value;
+	} catch (error) {
+		console.error(`Error highlighting ${lang} code block:`, error);
+		return "";
+	}
+}
+
+// The markdown-it setup shared by every HTML export
+export function createMarkdownRenderer(
+	rendererOptions: MarkdownRendererOptions = {}
+): markdownit {
+	// Initialize markdown-it with options
+	const md = markdownit({
+		html: true,
+		breaks: true,
+		linkify: true,
+		highlight: highlightCode,
+	})
+		.use(footnote)
+		.use(obsidianMarkdown);
+
+	// Custom renderer for internal links
+	md.renderer.rules.link_open = (
+		tokens: Token[],
+		idx: number,
+		options: markdownit.Options,
+		env: any,
+		self: any
+	) => {
+		const token = tokens[idx];
+		const hrefIndex = token.attrIndex("href");
+		if (hrefIndex >= 0) {
+			const href = token.attrs![hrefIndex][1];
+			// Add style attribute for dotted underline with transition
+			token.attrPush([
+				"style",
+				"text-decoration: none; border-bottom: 1px solid rgba(128, 128, 128, 0.6);",
+			]);
+			token.attrPush([
+				"onmouseover",
+				`this.style.borderBottom = '2px dotted rgba(128, 128, 128, 0.6)';`,
+			]);
+			token.attrPush([
+				"onmouseout",
+				`this.style.borderBottom = '1px solid rgba(128, 128, 128, 0.6)';`,
+			]);
+			// markdown-it has already percent-encoded the brackets
+			const link = href
+				? parseWikilink(md.normalizeLinkText(href))
+				: null;
+			const resolved = link && rendererOptions.resolveWikilink?.(link);
+			if (resolved) {
+				// Set the href attribute
+				token.attrs![hrefIndex][1] = resolved;
+			}
+		}
+		return self.renderToken(tokens, idx, options);
+	};
+
+	return md;
+}
+
+// The #tags a reader would see, so ones in code spans, fences and URLs don't
+// count
+export function findInlineTags(markdown: string): string[] {
+	const tags: string[] = [];
+	for (const token of createMarkdownRenderer().parse(markdown, {})) {
+		for (const child of token.children ?? []) {
+			if (
+				child.type === "obsidian_tag" &&
+				!tags.includes(child.content)
+			) {
+				tags.push(child.content);
+			}
+		}
+	}
+	return tags;
+}
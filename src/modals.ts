@@ -0,0 +1,278 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { relative } from "path";
+import type { HugoDryRun } from "./hugo-exporter";
+import type { ImageAction } from "./hugo-images";
+import type { RedactionResult } from "./redaction";
+import type { ValidationResult } from "./validation";
+
+export interface ConfirmModalOptions {
+	title: string;
+	message: string;
+	items?: string[];
+	confirmText: string;
+	onConfirm: () => void;
+	onCancel?: () => void;
+}
+
+export class ConfirmModal extends Modal {
+	options: ConfirmModalOptions;
+	private confirmed = false;
+
+	constructor(app: App, options: ConfirmModalOptions) {
+		super(app);
+		this.options = options;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: this.options.title });
+		contentEl.createEl("p", { text: this.options.message });
+
+		if (this.options.items && this.options.items.length > 0) {
+			const list = contentEl.createEl("ul");
+			for (const item of this.options.items) {
+				list.createEl("li", { text: item });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(this.options.confirmText)
+					.setWarning()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+						this.options.onConfirm();
+					})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.confirmed) {
+			this.options.onCancel?.();
+		}
+	}
+}
+
+// Lists what the pre-publish checks found and lets the user go ahead anyway
+export class ValidationModal extends Modal {
+	result: ValidationResult;
+	onPublish: () => void;
+	onCancel: () => void;
+	private published = false;
+
+	constructor(
+		app: App,
+		result: ValidationResult,
+		onPublish: () => void,
+		onCancel: () => void
+	) {
+		super(app);
+		this.result = result;
+		this.onPublish = onPublish;
+		this.onCancel = onCancel;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: `Check ${this.result.notePath}` });
+
+		const errors = this.result.issues.filter(
+			(issue) => issue.severity === "error"
+		);
+		const warnings = this.result.issues.filter(
+			(issue) => issue.severity === "warning"
+		);
+
+		if (errors.length > 0) {
+			contentEl.createEl("h3", { text: "Errors" });
+			const list = contentEl.createEl("ul");
+			for (const issue of errors) {
+				list.createEl("li", {
+					text: issue.message,
+					cls: "mod-warning",
+				});
+			}
+		}
+
+		if (warnings.length > 0) {
+			contentEl.createEl("h3", { text: "Warnings" });
+			const list = contentEl.createEl("ul");
+			for (const issue of warnings) {
+				list.createEl("li", { text: issue.message });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) => {
+				button.setButtonText("Publish anyway").onClick(() => {
+					this.published = true;
+					this.close();
+					this.onPublish();
+				});
+				if (errors.length > 0) {
+					button.setWarning();
+				} else {
+					button.setCta();
+				}
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.published) {
+			this.onCancel();
+		}
+	}
+}
+
+// Shows a note exactly as it would be published, and what was taken out
+export class RedactionPreviewModal extends Modal {
+	title: string;
+	result: RedactionResult;
+
+	constructor(app: App, title: string, result: RedactionResult) {
+		super(app);
+		this.title = title;
+		this.result = result;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: this.title });
+
+		if (this.result.removed.length > 0) {
+			contentEl.createEl("h3", { text: "Redacted" });
+			const list = contentEl.createEl("ul");
+			for (const item of this.result.removed) {
+				list.createEl("li", { text: item });
+			}
+		} else {
+			contentEl.createEl("p", { text: "Nothing was redacted." });
+		}
+
+		contentEl.createEl("h3", { text: "Published content" });
+		contentEl
+			.createEl("pre", { cls: "redaction-preview" })
+			.createEl("code", { text: this.result.content });
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Copy").onClick(async () => {
+					await navigator.clipboard.writeText(this.result.content);
+					new Notice("Copied redacted output");
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Close")
+					.setCta()
+					.onClick(() => this.close())
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+const IMAGE_ACTIONS: { [action in ImageAction]: string } = {
+	copy: "Copy",
+	overwrite: "Overwrite",
+	skip: "Skip, already in the repo",
+};
+
+// Shows what a Hugo export would change and writes nothing until confirmed
+export class HugoDryRunModal extends Modal {
+	dryRun: HugoDryRun;
+	onExport: () => void;
+	onCancel: () => void;
+	private exported = false;
+
+	constructor(
+		app: App,
+		dryRun: HugoDryRun,
+		onExport: () => void,
+		onCancel: () => void
+	) {
+		super(app);
+		this.dryRun = dryRun;
+		this.onExport = onExport;
+		this.onCancel = onCancel;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { dryRun } = this;
+		const repoPath = (path: string) =>
+			relative(dryRun.profile.repoRoot, path);
+
+		contentEl.createEl("h2", { text: `Export ${dryRun.sourcePath}` });
+		contentEl.createEl("p", {
+			text:
+				dryRun.previousContent === null
+					? `Creates ${repoPath(dryRun.contentPath)}`
+					: `Updates ${repoPath(dryRun.contentPath)}`,
+		});
+
+		if (dryRun.diff) {
+			const code = contentEl
+				.createEl("pre", { cls: "hugo-dry-run-diff" })
+				.createEl("code");
+			for (const line of dryRun.diff.split("\n")) {
+				let cls = "";
+				if (line.startsWith("@@")) cls = "diff-hunk";
+				else if (line.startsWith("+")) cls = "diff-add";
+				else if (line.startsWith("-")) cls = "diff-remove";
+				code.createEl("div", { text: line, cls });
+			}
+		} else {
+			contentEl.createEl("p", {
+				text: "The page in the repo is already up to date.",
+			});
+		}
+
+		if (dryRun.images.length > 0) {
+			contentEl.createEl("h3", { text: "Images" });
+			const list = contentEl.createEl("ul");
+			for (const image of dryRun.images) {
+				list.createEl("li", {
+					text: `${IMAGE_ACTIONS[image.action]}: ${repoPath(
+						image.destPath
+					)}`,
+					cls: image.action === "overwrite" ? "mod-warning" : "",
+				});
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Export")
+					.setCta()
+					.onClick(() => {
+						this.exported = true;
+						this.close();
+						this.onExport();
+					})
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.exported) {
+			this.onCancel();
+		}
+	}
+}
@@ -0,0 +1,275 @@
+import { arrayBufferToBase64, Notice, TFile } from "obsidian";
+import type MyPlugin from "../main";
+import { findEmbeddedAssets, hashAsset } from "./assets";
+import { FrontmatterDocument, updateFrontmatter } from "./frontmatter";
+import { replaceWikilinks } from "./links";
+import type { QueuedPublish } from "./publish-queue";
+import type { RedactionResult } from "./redaction";
+import { expandTransclusions } from "./transclusion";
+
+export const NOTES_SITE_INGEST_URL =
+	"https://jonbo-notessiteingest.web.val.run";
+
+// Frontmatter keys the plugin keeps on a note once it has been published
+export const NOTES_SITE_ID_KEY = "notes_site_id";
+export const NOTES_SITE_URL_KEY = "notes_site_url";
+export const NOTES_SITE_PUBLISHED_KEY = "notes_site_published";
+
+const NOTES_SITE_KEYS = [
+	NOTES_SITE_ID_KEY,
+	NOTES_SITE_URL_KEY,
+	NOTES_SITE_PUBLISHED_KEY,
+];
+
+// The note as it should look on notes.site, without our bookkeeping keys
+export function stripNotesSiteKeys(content: string): string {
+	const doc = FrontmatterDocument.parse(content);
+	NOTES_SITE_KEYS.forEach((key) => doc.remove(key));
+	return doc.toString();
+}
+
+// Queued posts keep their markdown as-is, it's only encoded when sent
+export interface NotesSitePayload {
+	id: string;
+	title: string;
+	content: string;
+}
+
+export interface NotesSitePublishResult {
+	id: string;
+	url: string | null;
+	publishedAt: string;
+	updated: boolean;
+}
+
+export class NotesSitePublisher {
+	plugin: MyPlugin;
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	// The id stays with the note so republishing updates the existing post
+	getNoteId(content: string): string | null {
+		const id =
+			FrontmatterDocument.parse(content).getString(NOTES_SITE_ID_KEY);
+		return id ?? null;
+	}
+
+	buildPayload(file: TFile, content: string, id: string): NotesSitePayload {
+		return {
+			id,
+			title: this.plugin.filenameToTitle(file.name),
+			content: stripNotesSiteKeys(content),
+		};
+	}
+
+	// The markdown notes.site receives. It can't see the vault, so embedded
+	// notes go in inline, then private parts and bookkeeping keys come out.
+	async prepareContent(
+		file: TFile,
+		content: string
+	): Promise<RedactionResult> {
+		const expanded = await expandTransclusions(
+			this.plugin.app,
+			content,
+			file.path
+		);
+		const redacted = this.plugin.redact(expanded.content);
+		return {
+			content: stripNotesSiteKeys(redacted.content),
+			removed: redacted.removed,
+		};
+	}
+
+	// Queue a note for publishing. The id is written to the note up front so
+	// publishing again while offline still targets the same post.
+	async publish(file: TFile, content: string): Promise<void> {
+		const existingId = this.getNoteId(content);
+		const id = existingId ?? String(Date.now());
+		if (!existingId) {
+			await updateFrontmatter(this.plugin.app, file, (doc) => {
+				doc.set(NOTES_SITE_ID_KEY, id);
+			});
+		}
+
+		const prepared = await this.prepareContent(file, content);
+
+		await this.plugin.publishQueue.enqueue(
+			file.path,
+			this.buildPayload(file, prepared.content, id),
+			existingId !== null
+		);
+		await this.plugin.publishQueue.process();
+	}
+
+	// Deliver a queued publish. Throws so the queue can retry it later.
+	async send(item: QueuedPublish): Promise<void> {
+		const content = await this.uploadAssets(item);
+
+		const response = await fetch(this.plugin.settings.notesSiteEndpoint, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				...item.payload,
+				content: btoa(encodeURIComponent(content)),
+			}),
+		});
+		if (!response.ok) {
+			throw new Error(
+				`notes.site responded with status ${response.status}`
+			);
+		}
+
+		const result: NotesSitePublishResult = {
+			id: item.payload.id,
+			url: await this.readPostUrl(response),
+			publishedAt: new Date().toISOString(),
+			updated: item.updated,
+		};
+
+		// The note may have been moved or deleted while the item was queued
+		const file = this.plugin.app.vault.getAbstractFileByPath(item.notePath);
+		if (file instanceof TFile) {
+			await this.recordPublish(file, result);
+		}
+		this.plugin.feeds.scheduleUpdate();
+
+		new Notice(
+			result.updated
+				? `Updated ${item.payload.title} on notes.site`
+				: `Published ${item.payload.title} to notes.site`
+		);
+	}
+
+	// Upload the attachments a post embeds and point the embeds at them.
+	// Assets are keyed by content hash, so unchanged files are never resent.
+	private async uploadAssets(item: QueuedPublish): Promise<string> {
+		const { app } = this.plugin;
+		const { assets } = findEmbeddedAssets(
+			app,
+			item.payload.content,
+			item.notePath
+		);
+
+		const urls = new Map<string, string>();
+		for (const asset of assets) {
+			if (urls.has(asset.link.raw)) continue;
+
+			const hash = await hashAsset(app, asset.file);
+			let url = this.plugin.settings.uploadedAssets[hash];
+			if (!url) {
+				url = await this.uploadAsset(item.payload.id, asset.file, hash);
+				this.plugin.settings.uploadedAssets[hash] = url;
+				await this.plugin.saveSettings();
+			}
+			urls.set(asset.link.raw, url);
+		}
+
+		return replaceWikilinks(item.payload.content, (link) => {
+			const url = urls.get(link.raw);
+			if (!url) return link.raw;
+
+			// ![[image.png|300]] sizes rather than captions the image
+			const alt =
+				link.alias && !/^\d+(x\d+)?$/.test(link.alias)
+					? link.alias
+					: link.linkpath;
+			return `![${alt}](${url})`;
+		});
+	}
+
+	private async uploadAsset(
+		postId: string,
+		file: TFile,
+		hash: string
+	): Promise<string> {
+		const data = await this.plugin.app.vault.readBinary(file);
+		const response = await fetch(
+			`${this.plugin.settings.notesSiteEndpoint.replace(
+				/\/+$/,
+				""
+			)}/assets`,
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					postId,
+					name: file.name,
+					hash,
+					content: arrayBufferToBase64(data),
+				}),
+			}
+		);
+		if (!response.ok) {
+			throw new Error(
+				`Uploading ${file.name} failed with status ${response.status}`
+			);
+		}
+
+		const url = await this.readPostUrl(response);
+		if (!url) {
+			throw new Error(`No URL returned for uploaded ${file.name}`);
+		}
+		return url;
+	}
+
+	// Ask the ingest endpoint to take a post down. Returns false when the note
+	// was never published, so there is nothing to delete.
+	async unpublish(file: TFile, content: string): Promise<boolean> {
+		// Whatever is still queued for this note must not go out afterwards,
+		// and a send already under way has to land before the delete or it
+		// would bring the post back
+		await this.plugin.publishQueue.remove(file.path);
+		await this.plugin.publishQueue.idle();
+
+		// That send may have just recorded the note's id
+		const id =
+			this.getNoteId(await this.plugin.app.vault.read(file)) ??
+			this.getNoteId(content);
+		if (!id) return false;
+
+		const response = await fetch(this.plugin.settings.notesSiteEndpoint, {
+			method: "DELETE",
+			headers: {
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({ id }),
+		});
+		if (!response.ok) {
+			throw new Error(
+				`notes.site delete failed with status ${response.status}`
+			);
+		}
+
+		await updateFrontmatter(this.plugin.app, file, (doc) => {
+			NOTES_SITE_KEYS.forEach((key) => doc.remove(key));
+		});
+		return true;
+	}
+
+	// The ingest endpoint answers with JSON carrying the post or asset URL
+	private async readPostUrl(response: Response): Promise<string | null> {
+		try {
+			const body = await response.json();
+			return typeof body?.url === "string" ? body.url : null;
+		} catch (error) {
+			console.error("Unexpected notes.site response:", error);
+			return null;
+		}
+	}
+
+	private async recordPublish(file: TFile, result: NotesSitePublishResult) {
+		await updateFrontmatter(this.plugin.app, file, (doc) => {
+			doc.set(NOTES_SITE_ID_KEY, result.id);
+			if (result.url) {
+				doc.set(NOTES_SITE_URL_KEY, result.url);
+			}
+			doc.set(NOTES_SITE_PUBLISHED_KEY, result.publishedAt);
+		});
+	}
+}
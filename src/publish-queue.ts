@@ -0,0 +1,169 @@
+import type { NotesSitePayload } from "./notes-site";
+
+export type QueuedPublishStatus = "pending" | "failed";
+
+// One queued publish per note, persisted in plugin data between sessions
+export interface QueuedPublish {
+	notePath: string;
+	payload: NotesSitePayload;
+	updated: boolean;
+	attempts: number;
+	nextAttemptAt: number;
+	queuedAt: number;
+	status: QueuedPublishStatus;
+	lastError: string | null;
+}
+
+export interface PublishQueueOptions {
+	// Deliver one item, throwing on network errors and non-2xx responses
+	send: (item: QueuedPublish) => Promise<void>;
+	save: (items: QueuedPublish[]) => Promise<void>;
+	onChange?: () => void;
+	onGiveUp?: (item: QueuedPublish) => void;
+	maxAttempts?: number;
+	baseDelay?: number;
+	maxDelay?: number;
+	now?: () => number;
+}
+
+export class PublishQueue {
+	items: QueuedPublish[];
+	private options: PublishQueueOptions;
+	private maxAttempts: number;
+	private baseDelay: number;
+	private maxDelay: number;
+	private now: () => number;
+	private processing: Promise<void> | null = null;
+
+	constructor(items: QueuedPublish[], options: PublishQueueOptions) {
+		this.items = items.slice();
+		this.options = options;
+		this.maxAttempts = options.maxAttempts ?? 8;
+		this.baseDelay = options.baseDelay ?? 30 * 1000;
+		this.maxDelay = options.maxDelay ?? 60 * 60 * 1000;
+		this.now = options.now ?? (() => Date.now());
+	}
+
+	get pending(): QueuedPublish[] {
+		return this.items.filter((item) => item.status === "pending");
+	}
+
+	get failed(): QueuedPublish[] {
+		return this.items.filter((item) => item.status === "failed");
+	}
+
+	// A newer publish of the same note replaces whatever was still queued
+	async enqueue(
+		notePath: string,
+		payload: NotesSitePayload,
+		updated: boolean
+	): Promise<void> {
+		this.items = this.items.filter((item) => item.notePath !== notePath);
+		this.items.push({
+			notePath,
+			payload,
+			updated,
+			attempts: 0,
+			nextAttemptAt: this.now(),
+			queuedAt: this.now(),
+			status: "pending",
+			lastError: null,
+		});
+		await this.persist();
+	}
+
+	async remove(notePath: string): Promise<void> {
+		const count = this.items.length;
+		this.items = this.items.filter((item) => item.notePath !== notePath);
+		if (this.items.length !== count) {
+			await this.persist();
+		}
+	}
+
+	// Resolves once the run in progress, if any, has finished. How it went
+	// is the run's business, so this never rejects.
+	async idle(): Promise<void> {
+		if (this.processing) {
+			await this.processing.catch(() => undefined);
+		}
+	}
+
+	// Put failed items back in line and try them straight away
+	async retryFailed(): Promise<void> {
+		for (const item of this.failed) {
+			item.status = "pending";
+			item.attempts = 0;
+			item.nextAttemptAt = this.now();
+		}
+		await this.persist();
+		await this.process();
+	}
+
+	// Send everything that is due. Concurrent calls share the same run, which
+	// keeps going until nothing is due, so items queued while it was sending
+	// are sent before it resolves.
+	process(): Promise<void> {
+		if (!this.processing) {
+			const done = () => {
+				this.processing = null;
+			};
+			this.processing = this.runUntilIdle().then(done, (error) => {
+				done();
+				throw error;
+			});
+		}
+		return this.processing;
+	}
+
+	private getDue(): QueuedPublish[] {
+		return this.pending.filter((item) => item.nextAttemptAt <= this.now());
+	}
+
+	private async runUntilIdle(): Promise<void> {
+		while (this.getDue().length > 0) {
+			await this.run();
+		}
+	}
+
+	private async run(): Promise<void> {
+		const due = this.getDue();
+		if (due.length === 0) return;
+
+		for (const item of due) {
+			// Removed while earlier items were being sent
+			if (!this.items.includes(item)) continue;
+
+			try {
+				await this.options.send(item);
+				this.items = this.items.filter((queued) => queued !== item);
+			} catch (error) {
+				item.attempts++;
+				item.lastError =
+					error instanceof Error ? error.message : String(error);
+
+				if (item.attempts >= this.maxAttempts) {
+					item.status = "failed";
+					this.options.onGiveUp?.(item);
+				} else {
+					item.nextAttemptAt =
+						this.now() + this.getBackoff(item.attempts);
+				}
+			}
+		}
+
+		await this.persist();
+	}
+
+	// Exponential backoff, capped so a long outage still retries hourly
+	private getBackoff(attempts: number): number {
+		return Math.min(
+			this.baseDelay * Math.pow(2, attempts - 1),
+			this.maxDelay
+		);
+	}
+
+	private async persist(): Promise<void> {
+		await this.options.save(this.items);
+		this.options.onChange?.();
+	}
+}
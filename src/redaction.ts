@@ -0,0 +1,210 @@
+import { FrontmatterDocument } from "./frontmatter";
+
+// What gets taken out of a note before it leaves the vault
+export interface RedactionRules {
+	stripComments: boolean;
+	// Sections under these headings are dropped, matched case-insensitively
+	headings: string[];
+	// Headings and blocks carrying one of these tags are dropped
+	tags: string[];
+	// Frontmatter keys that are kept, everything when empty
+	frontmatterAllowlist: string[];
+}
+
+export interface RedactionResult {
+	content: string;
+	// Short descriptions of what was taken out, for the preview
+	removed: string[];
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s/;
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Matches #tag as a whole tag, not #tag/child or #tagged
+export function hasInlineTag(text: string, tags: string[]): boolean {
+	return tags.some((tag) =>
+		new RegExp(
+			`(^|\\s)#${escapeRegExp(
+				tag.replace(/^#/, "")
+			)}(?![\\p{L}\\p{N}_/-])`,
+			"u"
+		).test(text)
+	);
+}
+
+function summarize(text: string): string {
+	const line = text.trim().split("\n")[0];
+	return line.length > 60 ? `${line.slice(0, 60)}…` : line;
+}
+
+// Remove %%comments%%, leaving fenced code alone so a literal %% in a
+// snippet survives. Unclosed comments run to the end of the note, as in
+// Obsidian.
+export function stripObsidianComments(text: string): string {
+	const output: string[] = [];
+	let buffer: string[] = [];
+	let fence: string | null = null;
+
+	const flush = () => {
+		output.push(buffer.join("\n").replace(/%%[\s\S]*?(%%|$)/g, ""));
+		buffer = [];
+	};
+
+	for (const line of text.split("\n")) {
+		const marker = line.match(FENCE_REGEX);
+		if (fence === null && marker) {
+			flush();
+			fence = marker[1];
+			output.push(line);
+		} else if (fence !== null) {
+			output.push(line);
+			if (line.trim().startsWith(fence)) fence = null;
+		} else {
+			buffer.push(line);
+		}
+	}
+	flush();
+
+	return output.filter((chunk, index) => chunk || index > 0).join("\n");
+}
+
+// Drop sections under private headings. A section runs to the next heading
+// of the same or a higher level.
+function redactSections(
+	body: string,
+	rules: RedactionRules,
+	removed: string[]
+): string {
+	const headings = rules.headings.map((heading) =>
+		heading.trim().toLowerCase()
+	);
+	const output: string[] = [];
+	let skipLevel: number | null = null;
+	let inFence = false;
+
+	for (const line of body.split("\n")) {
+		if (FENCE_REGEX.test(line)) inFence = !inFence;
+		const match = !inFence && line.match(HEADING_REGEX);
+
+		if (match) {
+			const level = match[1].length;
+			if (skipLevel !== null && level <= skipLevel) skipLevel = null;
+
+			const text = match[2].trim();
+			if (
+				skipLevel === null &&
+				(headings.includes(text.toLowerCase()) ||
+					hasInlineTag(text, rules.tags))
+			) {
+				skipLevel = level;
+				removed.push(`Section: ${line.trim()}`);
+			}
+		}
+
+		if (skipLevel === null) output.push(line);
+	}
+	return output.join("\n");
+}
+
+// Drop paragraphs carrying a private tag. In lists only the tagged item and
+// the lines nested under it go.
+function redactBlocks(
+	body: string,
+	rules: RedactionRules,
+	removed: string[]
+): string {
+	const lines = body.split("\n");
+	const output: string[] = [];
+	let inFence = false;
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i];
+		const isFence = FENCE_REGEX.test(line);
+		if (isFence) inFence = !inFence;
+		if (isFence || inFence || !line.trim() || HEADING_REGEX.test(line)) {
+			output.push(line);
+			i++;
+			continue;
+		}
+
+		const item = line.match(LIST_ITEM_REGEX);
+		if (item) {
+			// The item plus anything indented deeper than its marker
+			let end = i + 1;
+			while (
+				end < lines.length &&
+				lines[end].trim() &&
+				!FENCE_REGEX.test(lines[end]) &&
+				(lines[end].match(/^\s*/)?.[0].length ?? 0) > item[1].length
+			) {
+				end++;
+			}
+			const block = lines.slice(i, end);
+			if (hasInlineTag(block.join("\n"), rules.tags)) {
+				removed.push(`List item: ${summarize(line)}`);
+			} else {
+				output.push(...block);
+			}
+			i = end;
+			continue;
+		}
+
+		// A paragraph runs to the next blank line, heading, list or fence
+		let end = i + 1;
+		while (
+			end < lines.length &&
+			lines[end].trim() &&
+			!HEADING_REGEX.test(lines[end]) &&
+			!LIST_ITEM_REGEX.test(lines[end]) &&
+			!FENCE_REGEX.test(lines[end])
+		) {
+			end++;
+		}
+		const block = lines.slice(i, end);
+		if (hasInlineTag(block.join("\n"), rules.tags)) {
+			removed.push(`Block: ${summarize(block.join("\n"))}`);
+		} else {
+			output.push(...block);
+		}
+		i = end;
+	}
+	return output.join("\n");
+}
+
+// Apply every redaction rule to a note, frontmatter included
+export function redactContent(
+	content: string,
+	rules: RedactionRules
+): RedactionResult {
+	const removed: string[] = [];
+	const doc = FrontmatterDocument.parse(content);
+
+	if (rules.frontmatterAllowlist.length > 0) {
+		for (const key of Object.keys(doc.data)) {
+			if (!rules.frontmatterAllowlist.includes(key)) {
+				doc.remove(key);
+				removed.push(`Frontmatter: ${key}`);
+			}
+		}
+	}
+
+	let body = doc.body;
+	if (rules.stripComments) {
+		const stripped = stripObsidianComments(body);
+		if (stripped !== body) removed.push("Comments");
+		body = stripped;
+	}
+	body = redactSections(body, rules, removed);
+	if (rules.tags.length > 0) {
+		body = redactBlocks(body, rules, removed);
+	}
+	doc.body = body;
+
+	return { content: doc.toString(), removed };
+}
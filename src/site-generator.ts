@@ -0,0 +1,355 @@
+import { getAllTags, TFile } from "obsidian";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type MyPlugin from "../main";
+import { findEmbeddedAssets } from "./assets";
+import { FrontmatterDocument, getFrontmatterTags } from "./frontmatter";
+import { slugifyFilename } from "./hugo";
+import {
+	collectWikilinks,
+	getLinkDisplayText,
+	headingToAnchor,
+	replaceWikilinks,
+	resolveWikilink,
+} from "./links";
+import { createMarkdownRenderer, findInlineTags } from "./markdown";
+import { escapeHtml } from "./templates";
+import { expandTransclusions } from "./transclusion";
+
+// A note that is part of the generated site
+interface SitePage {
+	file: TFile;
+	doc: FrontmatterDocument;
+	// Redacted with transclusions expanded, what the page shows
+	body: string;
+	title: string;
+	date: string;
+	tags: string[];
+	// Vault paths of the notes the published body links to
+	links: string[];
+	href: string;
+	// Read before redaction, the allowlist may not keep it
+	template: string | undefined;
+}
+
+export interface SiteBuildResult {
+	pages: number;
+	tagPages: number;
+	assets: number;
+	// Notes left out because their frontmatter can't be read
+	invalidNotes: string[];
+}
+
+// Hands out the flat file names pages and attachments are written under.
+// When two vault files would share a name, the later one gets its folder
+// worked in so neither overwrites the other.
+export function createNameAllocator(
+	reserved: string[] = []
+): (file: TFile, name: string) => string {
+	const names = new Map<string, string>();
+	const taken = new Set(reserved);
+
+	return (file, name) => {
+		const existing = names.get(file.path);
+		if (existing) return existing;
+
+		let unique = name;
+		if (taken.has(unique)) {
+			const folder = file.parent?.path.replace(/^\/+|\/+$/g, "");
+			const prefix = folder
+				? slugifyFilename(folder.replace(/\//g, "-"))
+				: "root";
+			unique = `${prefix}-${name}`;
+			for (let n = 2; taken.has(unique); n++) {
+				unique = `${prefix}-${n}-${name}`;
+			}
+		}
+		taken.add(unique);
+		names.set(file.path, unique);
+		return unique;
+	};
+}
+
+function getTagHref(tag: string): string {
+	return `tags/${slugifyFilename(tag.replace(/\//g, "-"))}.html`;
+}
+
+// Renders a folder or tag worth of notes into standalone HTML: one page per
+// note, an index, a page per tag, backlinks and copied attachments
+export class StaticSiteGenerator {
+	plugin: MyPlugin;
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	isIncluded(file: TFile, tags: string[]): boolean {
+		const { staticSiteFolder, staticSiteTag } = this.plugin.settings;
+		const folder = staticSiteFolder.replace(/^\/+|\/+$/g, "");
+		const tag = staticSiteTag.replace(/^#/, "");
+
+		if (
+			folder &&
+			(file.path === folder || file.path.startsWith(`${folder}/`))
+		) {
+			return true;
+		}
+		return !!tag && tags.includes(tag);
+	}
+
+	async build(): Promise<SiteBuildResult> {
+		const outputDir = this.plugin.settings.staticSiteOutputDir;
+		const invalidNotes: string[] = [];
+		const pages = await this.collectPages(invalidNotes);
+		const pagesByPath = new Map(
+			pages.map((page) => [page.file.path, page])
+		);
+
+		await fs.mkdir(path.join(outputDir, "tags"), { recursive: true });
+
+		// Attachment path to the name it's copied under
+		const assets = new Map<string, string>();
+		const assetName = createNameAllocator();
+		for (const page of pages) {
+			const body = await this.renderNote(
+				page,
+				pagesByPath,
+				assets,
+				assetName
+			);
+			await this.writePage(
+				page.href,
+				page.title,
+				page.date,
+				body,
+				page.doc,
+				page.template
+			);
+		}
+
+		for (const [asset, name] of Array.from(assets.entries())) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(asset);
+			if (!(file instanceof TFile)) continue;
+
+			const destPath = path.join(outputDir, "assets", name);
+			await fs.mkdir(path.dirname(destPath), { recursive: true });
+			const sourcePath = this.plugin.getVaultFilePath(file);
+			if (
+				!(await this.plugin.fileExistsWithSameSize(
+					sourcePath,
+					destPath
+				))
+			) {
+				await fs.copyFile(sourcePath, destPath);
+			}
+		}
+
+		// Newest first, the same order the index uses
+		pages.sort((a, b) => b.date.localeCompare(a.date));
+		await this.writePage(
+			"index.html",
+			"Index",
+			new Date().toISOString().split("T")[0],
+			this.renderPageList(pages, "")
+		);
+
+		const tags = new Map<string, SitePage[]>();
+		for (const page of pages) {
+			for (const tag of page.tags) {
+				tags.set(tag, (tags.get(tag) ?? []).concat(page));
+			}
+		}
+		for (const [tag, tagged] of Array.from(tags.entries())) {
+			await this.writePage(
+				getTagHref(tag),
+				`#${tag}`,
+				new Date().toISOString().split("T")[0],
+				this.renderPageList(tagged, "../")
+			);
+		}
+
+		return {
+			pages: pages.length,
+			tagPages: tags.size,
+			assets: assets.size,
+			invalidNotes,
+		};
+	}
+
+	private async collectPages(invalidNotes: string[]): Promise<SitePage[]> {
+		const { app } = this.plugin;
+		const pages: SitePage[] = [];
+		const pageName = createNameAllocator(["index.html"]);
+
+		for (const file of app.vault.getMarkdownFiles()) {
+			const content = await app.vault.cachedRead(file);
+			const error = FrontmatterDocument.parse(content).error;
+			if (error) {
+				console.error(`Invalid frontmatter in ${file.path}:`, error);
+				invalidNotes.push(file.path);
+				continue;
+			}
+			const frontmatter = this.plugin.getFrontmatter(content);
+			const cache = app.metadataCache.getFileCache(file);
+			const inlineTags = cache ? getAllTags(cache) ?? [] : [];
+			const allTags = getFrontmatterTags(frontmatter)
+				.concat(inlineTags.map((tag) => tag.replace(/^#/, "")))
+				.filter((tag, index, all) => all.indexOf(tag) === index);
+
+			if (!this.isIncluded(file, allTags)) continue;
+
+			// Tags and links come from what gets published, so nothing
+			// redacted shows up as a tag page or a backlink. Private tags
+			// only ever mark what to redact, they get no page either.
+			const doc = FrontmatterDocument.parse(
+				this.plugin.redact(content).content
+			);
+			const expanded = await expandTransclusions(
+				app,
+				doc.body,
+				file.path
+			);
+			const body = this.plugin.redact(expanded.content).content;
+			const tags = getFrontmatterTags(
+				doc.hasFrontmatter ? doc.data : null
+			)
+				.concat(findInlineTags(body))
+				.filter(
+					(tag, index, all) =>
+						all.indexOf(tag) === index &&
+						!this.plugin.settings.privateTags.includes(tag)
+				);
+			const links = collectWikilinks(body)
+				.filter((link) => !link.embed)
+				.map((link) => resolveWikilink(app, link, file.path)?.path)
+				.filter((link): link is string => !!link);
+
+			pages.push({
+				file,
+				doc,
+				body,
+				title:
+					doc.getString("title") ??
+					this.plugin.filenameToTitle(file.name),
+				date:
+					doc.getString("date") ??
+					new Date(file.stat.ctime).toISOString().split("T")[0],
+				tags,
+				links,
+				href: pageName(file, `${slugifyFilename(file.basename)}.html`),
+				template: this.plugin.getFrontmatterString(
+					frontmatter,
+					"template"
+				),
+			});
+		}
+		return pages;
+	}
+
+	private async renderNote(
+		page: SitePage,
+		pagesByPath: Map<string, SitePage>,
+		assets: Map<string, string>,
+		assetName: (file: TFile, name: string) => string
+	): Promise<string> {
+		const { app } = this.plugin;
+		const body = page.body;
+
+		const embedded = new Map<string, string>();
+		for (const asset of findEmbeddedAssets(app, body, page.file.path)
+			.assets) {
+			const name = assetName(asset.file, asset.file.name);
+			embedded.set(asset.link.raw, `assets/${encodeURI(name)}`);
+			assets.set(asset.file.path, name);
+		}
+
+		// Links between pages of the site stay links, anything else is text
+		const markdown = replaceWikilinks(body, (link) => {
+			if (link.embed) {
+				const src = embedded.get(link.raw);
+				return src
+					? `![${link.alias ?? link.linkpath}](${src})`
+					: link.raw;
+			}
+
+			const text = getLinkDisplayText(link);
+			const anchor =
+				link.subpath && !link.subpath.startsWith("^")
+					? `#${headingToAnchor(link.subpath)}`
+					: "";
+			const dest = resolveWikilink(app, link, page.file.path);
+			const target = dest ? pagesByPath.get(dest.path) : undefined;
+			if (!target) return text;
+
+			const href = target === page ? anchor : `${target.href}${anchor}`;
+			return href ? `[${text}](${href})` : text;
+		});
+
+		let html = createMarkdownRenderer().render(markdown);
+
+		const backlinks = this.getBacklinks(page, pagesByPath);
+		if (backlinks.length > 0) {
+			html += `\n<section class="backlinks">\n<h2>Backlinks</h2>\n${this.renderPageList(
+				backlinks,
+				""
+			)}</section>\n`;
+		}
+		if (page.tags.length > 0) {
+			const tagLinks = page.tags
+				.map(
+					(tag) =>
+						`<a class="tag" href="${getTagHref(tag)}">#${escapeHtml(
+							tag
+						)}</a>`
+				)
+				.join(" ");
+			html += `\n<p class="tags">${tagLinks}</p>\n`;
+		}
+		return html;
+	}
+
+	// Pages on the site whose published text links here
+	private getBacklinks(
+		page: SitePage,
+		pagesByPath: Map<string, SitePage>
+	): SitePage[] {
+		return Array.from(pagesByPath.values()).filter(
+			(source) => source !== page && source.links.includes(page.file.path)
+		);
+	}
+
+	private renderPageList(pages: SitePage[], prefix: string): string {
+		const items = pages
+			.map(
+				(page) =>
+					`<li><a href="${prefix}${page.href}">${escapeHtml(
+						page.title
+					)}</a> <time>${escapeHtml(page.date)}</time></li>`
+			)
+			.join("\n");
+		return `<ul>\n${items}\n</ul>\n`;
+	}
+
+	private async writePage(
+		href: string,
+		title: string,
+		date: string,
+		html: string,
+		doc?: FrontmatterDocument,
+		templateName?: string
+	) {
+		const { templates, settings } = this.plugin;
+		const template = await templates.loadTemplate(templateName);
+		const page = await templates.render(template, {
+			content: html,
+			title,
+			date,
+			frontmatter: doc?.data ?? {},
+		});
+		await fs.writeFile(
+			path.join(settings.staticSiteOutputDir, href),
+			page,
+			"utf8"
+		);
+	}
+}
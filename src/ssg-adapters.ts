@@ -0,0 +1,217 @@
+import { TFile } from "obsidian";
+import * as path from "path";
+import type { FrontmatterDocument } from "./frontmatter";
+import { ExportProfile, resolveSection, slugifyFilename } from "./hugo";
+import { DEFAULT_SHORTCODE_MAPPING, ShortcodeMapping } from "./hugo-shortcodes";
+
+// The static site generators a profile or note can export for
+export type SsgAdapterKind = "hugo" | "jekyll" | "eleventy" | "astro";
+
+export const SSG_ADAPTER_KINDS: { [kind in SsgAdapterKind]: string } = {
+	hugo: "Hugo",
+	jekyll: "Jekyll",
+	eleventy: "Eleventy",
+	astro: "Astro",
+};
+
+// Where an exported note lands
+export interface ExportedPage {
+	section: string;
+	// Dashed, lowercased note name without an extension
+	slug: string;
+	// yyyy-mm-dd
+	date: string;
+}
+
+// What differs between generators: where pages go, their frontmatter, and
+// how media and links to other pages are written
+export interface SsgAdapter {
+	kind: SsgAdapterKind;
+	// Folder under the repo root that sections live in
+	contentDir: string;
+	// Static dir new profiles start with, and the URL it's served under
+	staticDir: string;
+	staticUrlPrefix: string;
+	shortcodes: ShortcodeMapping;
+	// Path of a page relative to contentDir
+	getPagePath(page: ExportedPage): string;
+	// Where the generator serves a page by default, relative to the site root
+	getPageUrl(page: ExportedPage): string;
+	// Markdown link to another exported page
+	renderLink(text: string, page: ExportedPage, anchor: string): string;
+	// Rename or drop frontmatter keys once date and title are filled in
+	mapFrontmatter(doc: FrontmatterDocument): void;
+}
+
+const HTML_FIGURE_TEMPLATE =
+	'<figure><img src="{src}" alt="{alt}"{?width: width="{width}"}{?height: height="{height}"}>{?caption:<figcaption>{caption}</figcaption>}</figure>';
+
+// Generators without Hugo-style shortcodes get plain HTML
+const HTML_SHORTCODE_MAPPING: ShortcodeMapping = {
+	...DEFAULT_SHORTCODE_MAPPING,
+	image: HTML_FIGURE_TEMPLATE,
+	gallery: '<div class="gallery">\n{images}\n</div>',
+	galleryImage: HTML_FIGURE_TEMPLATE,
+	youtube:
+		'<iframe src="https://www.youtube-nocookie.com/embed/{id}" title="{caption}" allowfullscreen></iframe>',
+};
+
+function sectionUrl(section: string, rest: string): string {
+	return section ? `/${section}/${rest}` : `/${rest}`;
+}
+
+// Pretty URLs, as Hugo, Eleventy and Astro serve pages by default
+function prettyUrl(page: ExportedPage): string {
+	return sectionUrl(page.section, `${page.slug}/`);
+}
+
+function prettyUrlLink(
+	text: string,
+	page: ExportedPage,
+	anchor: string
+): string {
+	return `[${text}](${prettyUrl(page)}${anchor})`;
+}
+
+const hugo: SsgAdapter = {
+	kind: "hugo",
+	contentDir: "content",
+	staticDir: "static",
+	staticUrlPrefix: "/",
+	shortcodes: DEFAULT_SHORTCODE_MAPPING,
+	getPagePath: (page) => path.join(page.section, `${page.slug}.md`),
+	getPageUrl: prettyUrl,
+	renderLink: (text, page, anchor) =>
+		`[${text}]({{< relref "${path.posix.join(
+			page.section,
+			`${page.slug}.md`
+		)}${anchor}" >}})`,
+	// Hugo reads aliases, the vault keeps them apart from Obsidian's own
+	mapFrontmatter(doc) {
+		if (doc.has("hugoAliases")) doc.rename("hugoAliases", "aliases");
+	},
+};
+
+// Posts go in the section's _posts folder under a date-prefixed name, and
+// the section becomes the post's category
+const jekyll: SsgAdapter = {
+	kind: "jekyll",
+	contentDir: "",
+	staticDir: "assets",
+	staticUrlPrefix: "/assets",
+	shortcodes: HTML_SHORTCODE_MAPPING,
+	getPagePath: (page) =>
+		path.join(page.section, "_posts", `${page.date}-${page.slug}.md`),
+	getPageUrl: (page) =>
+		sectionUrl(
+			page.section,
+			`${page.date.replace(/-/g, "/")}/${page.slug}.html`
+		),
+	renderLink: (text, page, anchor) =>
+		`[${text}]({% post_url ${page.date}-${page.slug} %}${anchor})`,
+	// Read by the jekyll-redirect-from plugin
+	mapFrontmatter(doc) {
+		if (doc.has("hugoAliases")) doc.rename("hugoAliases", "redirect_from");
+	},
+};
+
+const eleventy: SsgAdapter = {
+	kind: "eleventy",
+	contentDir: "",
+	staticDir: "assets",
+	staticUrlPrefix: "/assets",
+	shortcodes: HTML_SHORTCODE_MAPPING,
+	getPagePath: (page) => path.join(page.section, `${page.slug}.md`),
+	getPageUrl: prettyUrl,
+	renderLink: prettyUrlLink,
+	mapFrontmatter(doc) {
+		doc.remove("hugoAliases");
+	},
+};
+
+// Sections are content collections, served by a matching route
+const astro: SsgAdapter = {
+	kind: "astro",
+	contentDir: path.join("src", "content"),
+	staticDir: "public",
+	staticUrlPrefix: "/",
+	shortcodes: HTML_SHORTCODE_MAPPING,
+	getPagePath: (page) => path.join(page.section, `${page.slug}.md`),
+	getPageUrl: prettyUrl,
+	renderLink: prettyUrlLink,
+	// The Astro blog template's schema calls it pubDate
+	mapFrontmatter(doc) {
+		doc.remove("hugoAliases");
+		if (doc.has("date") && !doc.has("pubDate")) {
+			doc.rename("date", "pubDate");
+		}
+	},
+};
+
+const SSG_ADAPTERS: { [kind in SsgAdapterKind]: SsgAdapter } = {
+	hugo,
+	jekyll,
+	eleventy,
+	astro,
+};
+
+export function isSsgAdapterKind(value: string): value is SsgAdapterKind {
+	return value in SSG_ADAPTER_KINDS;
+}
+
+// A note's export_adapter wins over its profile, Hugo when neither is set
+export function resolveSsgAdapter(
+	profile: ExportProfile,
+	frontmatterAdapter: string | undefined
+): SsgAdapter {
+	const kind = frontmatterAdapter?.trim().toLowerCase();
+	if (kind && isSsgAdapterKind(kind)) return SSG_ADAPTERS[kind];
+	return SSG_ADAPTERS[profile.adapter ?? "hugo"];
+}
+
+export function getSsgAdapter(kind: SsgAdapterKind): SsgAdapter {
+	return SSG_ADAPTERS[kind];
+}
+
+const PAGE_DATE_REGEX = /^\d{4}-\d{2}-\d{2}/;
+
+// Undated notes are dated the day they're exported
+export function normalizePageDate(value: string | undefined): string {
+	const match = value?.match(PAGE_DATE_REGEX);
+	return match ? match[0] : new Date().toISOString().split("T")[0];
+}
+
+// True when a page can't be exported without a date of its own. Jekyll puts
+// it in the filename, so dating on export would write a new file each day.
+export function needsPageDate(
+	adapter: SsgAdapter,
+	value: string | undefined
+): boolean {
+	return adapter.kind === "jekyll" && !PAGE_DATE_REGEX.test(value ?? "");
+}
+
+export function resolvePage(
+	profile: ExportProfile,
+	file: TFile,
+	frontmatterSection: string | undefined,
+	frontmatterDate: string | undefined
+): ExportedPage {
+	return {
+		section: resolveSection(profile, file.path, frontmatterSection),
+		slug: slugifyFilename(file.basename),
+		date: normalizePageDate(frontmatterDate),
+	};
+}
+
+// Absolute path a page is written to
+export function getPagePath(
+	profile: ExportProfile,
+	adapter: SsgAdapter,
+	page: ExportedPage
+): string {
+	return path.join(
+		profile.repoRoot,
+		adapter.contentDir,
+		adapter.getPagePath(page)
+	);
+}
@@ -0,0 +1,447 @@
+import { App, normalizePath, TFile } from "obsidian";
+import { FrontmatterDocument, Frontmatter } from "./frontmatter";
+
+// Values a page template can reference. {{content}} is inserted as HTML,
+// everything else is escaped.
+export interface TemplateContext {
+	content: string;
+	title: string;
+	date: string;
+	frontmatter: Frontmatter;
+}
+
+const PLACEHOLDER_REGEX = /\{\{\s*(>\s*)?([\w.-]+)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+// The START page markup, used when no template file is configured
+export const DEFAULT_TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>{{title}}</title>
+    <style>
+        :root {
+            color-scheme: light dark;
+        }
+
+		.progress-bar {
+			position: fixed;
+			top: 0;
+			left: 0;
+			height: 1.5px;
+			background-color: rgba(147, 112, 219, 0.6);
+			width: 0%;
+			transition: width 100ms cubic-bezier(0.4, 0, 0.2, 1);
+			z-index: 1000;
+		}
+
+		.progress-toggle {
+			position: fixed;
+			bottom: 20px;
+			left: 20px;
+			padding: 8px 12px;
+			background-color: rgba(147, 112, 219, 0.1);
+			border: 1px solid rgba(147, 112, 219, 0.2);
+			border-radius: 4px;
+			color: rgba(147, 112, 219, 0.8);
+			cursor: pointer;
+			font-size: 12px;
+			transition: all 0.2s ease;
+			z-index: 1000;
+		}
+
+		.progress-toggle:hover {
+			background-color: rgba(147, 112, 219, 0.2);
+		}
+
+		img[src*="weather.cgi"] {
+			filter: brightness(0.82) invert(0.92);
+			display: block;
+			margin: 0 auto;
+			width: 50%;
+		}
+
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+            line-height: 1.6;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 2rem;
+            background-color: white;
+            color: #2e3338;
+        }
+
+        a { 
+            color: #4A6EE0;
+            text-decoration: none;
+        }
+
+        a:hover {
+            text-decoration: underline;
+        }
+
+        /* Highlights, tags and task lists */
+        mark {
+            background-color: rgba(255, 208, 0, 0.4);
+            color: inherit;
+        }
+
+        a.tag {
+            background-color: rgba(74, 110, 224, 0.1);
+            border-radius: 1em;
+            padding: 0.1em 0.6em;
+            font-size: 0.875em;
+        }
+
+        li.task-list-item {
+            list-style: none;
+        }
+
+        li.task-list-item.is-checked {
+            text-decoration: line-through;
+            opacity: 0.6;
+        }
+
+        /* Callouts */
+        .callout {
+            --callout-color: 74, 110, 224;
+            background-color: rgba(var(--callout-color), 0.1);
+            border-left: 4px solid rgb(var(--callout-color));
+            border-radius: 4px;
+            margin: 1em 0;
+            padding: 0.75em 1em;
+        }
+
+        .callout[data-callout="tip"], .callout[data-callout="success"], .callout[data-callout="check"], .callout[data-callout="done"] {
+            --callout-color: 8, 185, 78;
+        }
+
+        .callout[data-callout="warning"], .callout[data-callout="caution"], .callout[data-callout="attention"], .callout[data-callout="question"] {
+            --callout-color: 236, 117, 0;
+        }
+
+        .callout[data-callout="danger"], .callout[data-callout="error"], .callout[data-callout="bug"], .callout[data-callout="failure"] {
+            --callout-color: 233, 49, 71;
+        }
+
+        .callout[data-callout="quote"], .callout[data-callout="cite"] {
+            --callout-color: 158, 158, 158;
+        }
+
+        .callout-title {
+            color: rgb(var(--callout-color));
+            font-weight: 600;
+        }
+
+        .callout-content > :last-child {
+            margin-bottom: 0;
+        }
+
+        /* Footnotes */
+        .footnotes {
+            font-size: 0.875em;
+            opacity: 0.8;
+        }
+
+        /* Syntax highlighting */
+        .hljs-keyword, .hljs-selector-tag, .hljs-built_in, .hljs-name {
+            color: #a626a4;
+        }
+
+        .hljs-string, .hljs-attr, .hljs-regexp {
+            color: #50a14f;
+        }
+
+        .hljs-number, .hljs-literal, .hljs-type {
+            color: #986801;
+        }
+
+        .hljs-title, .hljs-section, .hljs-function {
+            color: #4078f2;
+        }
+
+        .hljs-comment, .hljs-quote {
+            color: #a0a1a7;
+            font-style: italic;
+        }
+
+        /* Obsidian-like dark theme */
+        @media (prefers-color-scheme: dark) {
+            body {
+                background-color: #202020;
+                color: #dcddde;
+            }
+
+            a {
+                color: #7f6df2;
+            }
+
+            /* Code blocks */
+            pre {
+                background-color: #2d2d2d;
+                padding: 1em;
+                border-radius: 4px;
+            }
+
+            code {
+                background-color: #2d2d2d;
+                padding: 0.2em 0.4em;
+                border-radius: 3px;
+            }
+
+            /* Blockquotes */
+            blockquote {
+                border-left: 4px solid #4a4a4a;
+                margin: 1em 0;
+                padding-left: 1em;
+                color: #999;
+            }
+
+            /* Horizontal rules */
+            hr {
+                border: none;
+                border-top: 1px solid #4a4a4a;
+            }
+
+            /* Tables */
+            table {
+                border-collapse: collapse;
+                margin: 1em 0;
+            }
+
+            th, td {
+                border: 1px solid #4a4a4a;
+                padding: 0.5em 1em;
+            }
+
+            th {
+                background-color: #2d2d2d;
+            }
+
+            /* Lists */
+            ul, ol {
+                padding-left: 2em;
+            }
+
+            /* Task lists */
+            input[type="checkbox"] {
+                margin-right: 0.5em;
+            }
+        </style>
+	<script>
+		// Progress bar animation
+		document.addEventListener('DOMContentLoaded', () => {
+			const progressBar = document.createElement('div');
+			progressBar.className = 'progress-bar';
+			document.body.appendChild(progressBar);
+
+			const toggle = document.createElement('button');
+			toggle.className = 'progress-toggle';
+			toggle.textContent = 'breath timer';
+			document.body.appendChild(toggle);
+
+			let enabled = localStorage.getItem('progressEnabled') === 'true';
+			let animation = null;
+
+			const updateProgressBar = () => {
+				if (enabled) {
+					startAnimation();
+				} else {
+					stopAnimation();
+				}
+			};
+
+			const startAnimation = () => {
+				if (animation) return;
+
+				const duration = 5500;
+				const startTime = Date.now();
+
+				const animate = () => {
+					const elapsed = (Date.now() - startTime) % (duration * 2);
+					const halfCycle = elapsed < duration;
+					let progress = (elapsed % duration) / duration;
+
+					// Smooth out the transitions by adjusting the progress curve
+					if (halfCycle) {
+						// Ease in more gradually at the start
+						progress = progress * 0.97 + 0.03;
+					} else {
+						// Keep the smooth transition on the way down
+						progress = 1 - progress;
+					}
+
+					// Apply enhanced easing for more pronounced breathing effect
+					const easeProgress = easeInOutQuint(progress);
+					progressBar.style.width = \`\${easeProgress * 100}%\`;
+					animation = requestAnimationFrame(animate);
+				};
+
+				animation = requestAnimationFrame(animate);
+			};
+
+			const stopAnimation = () => {
+				if (animation) {
+					cancelAnimationFrame(animation);
+					animation = null;
+				}
+				progressBar.style.width = '0%';
+			};
+
+			// Enhanced easing function for steeper edges and slower middle
+			const easeInOutQuint = (x) => {
+				return x < 0.5
+					? 16 * x * x * x * x * x
+					: 1 - Math.pow(-2 * x + 2, 5) / 2;
+			};
+
+			toggle.addEventListener('click', () => {
+				enabled = !enabled;
+				localStorage.setItem('progressEnabled', enabled);
+				updateProgressBar();
+			});
+
+			// Initialize state
+			updateProgressBar();
+		});
+	</script>
+</head>
+<body>
+    {{content}}
+</body>
+</html>`;
+
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+function formatValue(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	if (Array.isArray(value)) return value.map(formatValue).join(", ");
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+// Page templates live as .html files in a vault folder, partials under its
+// partials/ subfolder. A note picks one with `template: name` in frontmatter.
+export class TemplateRenderer {
+	app: App;
+	private getFolder: () => string;
+
+	constructor(app: App, getFolder: () => string) {
+		this.app = app;
+		this.getFolder = getFolder;
+	}
+
+	// The named template, else default.html from the folder, else the built-in
+	async loadTemplate(name: string | undefined): Promise<string> {
+		const folder = this.getFolder();
+		if (name) {
+			const template = await this.readFile(`${name}.html`);
+			if (template === null) {
+				throw new Error(
+					`Template "${name}" not found in ${folder || "the vault"}`
+				);
+			}
+			return template;
+		}
+
+		const fallback = folder ? await this.readFile("default.html") : null;
+		return fallback ?? DEFAULT_TEMPLATE;
+	}
+
+	async render(
+		template: string,
+		context: TemplateContext,
+		depth = 0
+	): Promise<string> {
+		if (depth > MAX_PARTIAL_DEPTH) {
+			throw new Error("Template partials are nested too deeply");
+		}
+
+		// Resolve partials first so their placeholders see the same context
+		const partials = new Map<string, string>();
+		const unknown: string[] = [];
+		const matches = template.match(PLACEHOLDER_REGEX) ?? [];
+		for (const match of matches) {
+			const [, partial, name] =
+				new RegExp(PLACEHOLDER_REGEX.source).exec(match) ?? [];
+			if (!partial || partials.has(name)) continue;
+
+			const source = await this.readFile(`partials/${name}.html`);
+			if (source === null) {
+				throw new Error(`Unknown partial "${name}" in template`);
+			}
+			partials.set(name, await this.render(source, context, depth + 1));
+		}
+
+		const rendered = template.replace(
+			PLACEHOLDER_REGEX,
+			(match, partial: string | undefined, name: string) => {
+				if (partial) return partials.get(name) ?? "";
+
+				const value = this.lookup(context, name);
+				if (value === undefined) {
+					unknown.push(name);
+					return match;
+				}
+				return value;
+			}
+		);
+
+		if (unknown.length > 0) {
+			throw new Error(
+				`Unknown template placeholder${
+					unknown.length > 1 ? "s" : ""
+				}: ${unknown.map((name) => `{{${name}}}`).join(", ")}`
+			);
+		}
+		return rendered;
+	}
+
+	// Render a note's HTML body into the template its frontmatter asks for.
+	// The name comes from the note as written, since redacting markdown can
+	// drop the template key.
+	async renderPage(
+		file: TFile,
+		markdown: string,
+		html: string,
+		templateName: string | undefined
+	): Promise<string> {
+		const doc = FrontmatterDocument.parse(markdown);
+		const template = await this.loadTemplate(templateName);
+		return this.render(template, {
+			content: html,
+			title: doc.getString("title") ?? file.basename,
+			date:
+				doc.getString("date") ?? new Date().toISOString().split("T")[0],
+			frontmatter: doc.data,
+		});
+	}
+
+	private lookup(context: TemplateContext, name: string): string | undefined {
+		if (name === "content") return context.content;
+		if (name === "title") return escapeHtml(context.title);
+		if (name === "date") return escapeHtml(context.date);
+
+		if (name.startsWith("frontmatter.")) {
+			const key = name.slice("frontmatter.".length);
+			return escapeHtml(formatValue(context.frontmatter[key]));
+		}
+		return undefined;
+	}
+
+	private async readFile(relativePath: string): Promise<string | null> {
+		const folder = this.getFolder();
+		const path = normalizePath(
+			folder ? `${folder}/${relativePath}` : relativePath
+		);
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? this.app.vault.cachedRead(file) : null;
+	}
+}
@@ -0,0 +1,162 @@
+import { App, TFile } from "obsidian";
+import { FrontmatterDocument } from "./frontmatter";
+import { collectWikilinks, replaceWikilinks, resolveWikilink } from "./links";
+
+// Embeds nested deeper than this are left as links
+export const MAX_TRANSCLUSION_DEPTH = 5;
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const BLOCK_ID_REGEX = /\s*\^([\w-]+)\s*$/;
+
+export interface TransclusionResult {
+	content: string;
+	// Embeds left as links because they loop back or nest too deep
+	skipped: string[];
+	// Every note whose content was inlined, once each
+	embedded: TFile[];
+}
+
+function normalizeHeading(heading: string): string {
+	return heading.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Index of every heading line outside fenced code
+function findHeadings(
+	lines: string[]
+): { line: number; level: number; text: string }[] {
+	const headings: { line: number; level: number; text: string }[] = [];
+	let inFence = false;
+	lines.forEach((line, index) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			return;
+		}
+		const match = !inFence && line.match(HEADING_REGEX);
+		if (match) {
+			headings.push({
+				line: index,
+				level: match[1].length,
+				text: match[2],
+			});
+		}
+	});
+	return headings;
+}
+
+// The heading and everything under it, up to the next heading of the same or
+// a higher level. Nested subpaths (Note#Parent#Child) use the last heading.
+export function extractHeadingSection(
+	body: string,
+	subpath: string
+): string | null {
+	const heading = normalizeHeading(subpath.split("#").pop() ?? "");
+	const lines = body.split("\n");
+	const headings = findHeadings(lines);
+
+	const index = headings.findIndex(
+		(candidate) => normalizeHeading(candidate.text) === heading
+	);
+	if (index < 0) return null;
+
+	const start = headings[index];
+	const end = headings
+		.slice(index + 1)
+		.find((candidate) => candidate.level <= start.level);
+	return lines.slice(start.line, end ? end.line : lines.length).join("\n");
+}
+
+// The paragraph or list item marked with ^blockId. An id on a line of its
+// own refers to the block just above it.
+export function extractBlock(body: string, blockId: string): string | null {
+	const lines = body.split("\n");
+	const index = lines.findIndex((line) => {
+		const match = line.match(BLOCK_ID_REGEX);
+		return match !== null && match[1] === blockId;
+	});
+	if (index < 0) return null;
+
+	const line = lines[index].replace(BLOCK_ID_REGEX, "");
+	if (/^\s*([-*+]|\d+[.)])\s/.test(line)) return line;
+
+	let end = index;
+	if (!line.trim()) {
+		end = index - 1;
+		while (end >= 0 && !lines[end].trim()) end--;
+		if (end < 0) return null;
+	}
+
+	let start = end;
+	while (start > 0 && lines[start - 1].trim()) start--;
+
+	const block = lines.slice(start, end + 1);
+	if (end === index) block[block.length - 1] = line;
+	return block.join("\n");
+}
+
+// Block ids are Obsidian bookkeeping, not text
+function stripBlockIds(content: string): string {
+	return content
+		.split("\n")
+		.map((line) => line.replace(BLOCK_ID_REGEX, ""))
+		.join("\n");
+}
+
+// Inline ![[Note]], ![[Note#Heading]] and ![[Note#^block]] embeds, recursing
+// into embeds of embeds. Attachments and unresolved embeds are left alone.
+export async function expandTransclusions(
+	app: App,
+	content: string,
+	sourcePath: string,
+	maxDepth = MAX_TRANSCLUSION_DEPTH
+): Promise<TransclusionResult> {
+	const skipped: string[] = [];
+	const embedded: TFile[] = [];
+
+	const expand = async (
+		text: string,
+		path: string,
+		stack: string[]
+	): Promise<string> => {
+		const replacements = new Map<string, string>();
+
+		for (const link of collectWikilinks(text)) {
+			if (!link.embed || replacements.has(link.raw)) continue;
+
+			const dest = resolveWikilink(app, link, path);
+			if (!dest || dest.extension !== "md") continue;
+
+			const key = `${dest.path}#${link.subpath}`;
+			if (stack.includes(key) || stack.length > maxDepth) {
+				skipped.push(`${path}: ${link.raw}`);
+				replacements.set(link.raw, link.raw.slice(1));
+				continue;
+			}
+
+			const body = FrontmatterDocument.parse(
+				await app.vault.cachedRead(dest)
+			).body;
+			const section = !link.subpath
+				? body
+				: link.subpath.startsWith("^")
+				? extractBlock(body, link.subpath.slice(1))
+				: extractHeadingSection(body, link.subpath);
+			if (section === null) continue;
+
+			if (!embedded.includes(dest)) embedded.push(dest);
+			replacements.set(
+				link.raw,
+				stripBlockIds(
+					await expand(section.trim(), dest.path, stack.concat(key))
+				)
+			);
+		}
+
+		return replaceWikilinks(
+			text,
+			(link) => replacements.get(link.raw) ?? link.raw
+		);
+	};
+
+	const expanded = await expand(content, sourcePath, [`${sourcePath}#`]);
+	return { content: expanded, skipped, embedded };
+}
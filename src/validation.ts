@@ -0,0 +1,310 @@
+import { TFile } from "obsidian";
+import type MyPlugin from "../main";
+import { findEmbeddedAssets } from "./assets";
+import {
+	FrontmatterDocument,
+	getFrontmatterTags,
+	hasUnreadableTags,
+} from "./frontmatter";
+import { findExportProfile, slugifyFilename } from "./hugo";
+import { collectWikilinks, resolveWikilink } from "./links";
+import {
+	needsPageDate,
+	resolveSsgAdapter,
+	SSG_ADAPTER_KINDS,
+} from "./ssg-adapters";
+import { expandTransclusions } from "./transclusion";
+
+export type PublishTarget = "notes-site" | "hugo";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+	severity: ValidationSeverity;
+	code: string;
+	message: string;
+}
+
+export interface ValidationResult {
+	notePath: string;
+	target: PublishTarget;
+	issues: ValidationIssue[];
+}
+
+type IssueReporter = (
+	severity: ValidationSeverity,
+	code: string,
+	message: string
+) => void;
+
+export function hasErrors(result: ValidationResult): boolean {
+	return result.issues.some((issue) => issue.severity === "error");
+}
+
+// Checks a note before it leaves the vault. Nothing here blocks a publish on
+// its own, the caller decides what to do with the result.
+export class PublishValidator {
+	plugin: MyPlugin;
+
+	constructor(plugin: MyPlugin) {
+		this.plugin = plugin;
+	}
+
+	async validate(
+		file: TFile,
+		content: string,
+		target: PublishTarget
+	): Promise<ValidationResult> {
+		const issues: ValidationIssue[] = [];
+		const add: IssueReporter = (severity, code, message) => {
+			issues.push({ severity, code, message });
+		};
+
+		const doc = FrontmatterDocument.parse(content);
+		const frontmatter = doc.hasFrontmatter ? doc.data : null;
+
+		if (doc.error) {
+			add(
+				"error",
+				"invalid-frontmatter",
+				`Frontmatter isn't valid YAML: ${doc.error}`
+			);
+		}
+
+		if (hasUnreadableTags(frontmatter)) {
+			add(
+				"warning",
+				"unreadable-tags",
+				"The tags in frontmatter are empty or couldn't be read"
+			);
+		}
+
+		if (!this.plugin.isPublishable(frontmatter)) {
+			// Hugo export has always been allowed on untagged notes
+			add(
+				target === "notes-site" ? "error" : "warning",
+				"missing-publish-tag",
+				"Note has no #publish tag in its frontmatter"
+			);
+		}
+
+		if (this.plugin.isDailyNote(file.name)) {
+			add("error", "daily-note", "Daily notes are never published");
+		}
+
+		const title = doc.has("title")
+			? doc.getString("title")
+			: this.plugin.filenameToTitle(file.name);
+		if (!title || !title.trim()) {
+			add("warning", "empty-title", "Note has an empty title");
+		}
+
+		this.checkDate(content, doc, target, add);
+
+		// Only what survives transclusion and redaction is published, so
+		// that's what's checked
+		const expanded = await expandTransclusions(
+			this.plugin.app,
+			content,
+			file.path
+		);
+		const publishedBody = FrontmatterDocument.parse(
+			this.plugin.redact(expanded.content).content
+		).body;
+		await this.checkEmbeddedNotes(expanded.embedded, add);
+		this.checkPrivateTags(doc, publishedBody, add);
+		await this.checkLinks(file, publishedBody, add);
+		if (target === "hugo") this.checkExportProfile(doc, add);
+		await this.checkSlugCollisions(file, content, target, add);
+
+		return { notePath: file.path, target, issues };
+	}
+
+	// Undated notes are dated on export, which Jekyll can't take: the date
+	// is in the post's filename, so each export would write a new file
+	private checkDate(
+		content: string,
+		doc: FrontmatterDocument,
+		target: PublishTarget,
+		add: IssueReporter
+	) {
+		const profile =
+			target === "hugo"
+				? this.plugin.hugoExporter.resolveProfile(content)
+				: null;
+		const adapter = profile
+			? resolveSsgAdapter(profile, doc.getString("export_adapter"))
+			: null;
+
+		if (adapter && needsPageDate(adapter, doc.getString("date"))) {
+			add(
+				"error",
+				"missing-date",
+				`${
+					SSG_ADAPTER_KINDS[adapter.kind]
+				} posts need a yyyy-mm-dd date in frontmatter`
+			);
+		} else if (!doc.has("date")) {
+			add(
+				"warning",
+				"missing-date",
+				"No date in frontmatter, today's date will be used"
+			);
+		}
+	}
+
+	private checkExportProfile(doc: FrontmatterDocument, add: IssueReporter) {
+		const name = doc.getString("export_profile");
+		if (
+			name &&
+			!findExportProfile(this.plugin.settings.exportProfiles, name)
+		) {
+			add(
+				"error",
+				"unknown-export-profile",
+				`No export profile named "${name}"`
+			);
+		}
+	}
+
+	// Embedded notes are published inline, so they must be fit to publish
+	// themselves
+	private async checkEmbeddedNotes(embedded: TFile[], add: IssueReporter) {
+		for (const dest of embedded) {
+			const frontmatter = this.plugin.getFrontmatter(
+				await this.plugin.app.vault.cachedRead(dest)
+			);
+			if (!this.plugin.isPublishable(frontmatter)) {
+				add(
+					"error",
+					"unpublished-embed",
+					`Embeds unpublished note: ${dest.path}`
+				);
+			}
+
+			const tags = getFrontmatterTags(frontmatter);
+			for (const privateTag of this.plugin.settings.privateTags) {
+				if (tags.includes(privateTag)) {
+					add(
+						"error",
+						"private-embed",
+						`Embeds ${dest.path}, which has the private tag #${privateTag}`
+					);
+				}
+			}
+		}
+	}
+
+	private checkPrivateTags(
+		doc: FrontmatterDocument,
+		body: string,
+		add: IssueReporter
+	) {
+		const tags = getFrontmatterTags(doc.hasFrontmatter ? doc.data : null);
+		for (const privateTag of this.plugin.settings.privateTags) {
+			const inlineTag = new RegExp(
+				`(^|\\s)#${privateTag.replace(
+					/[.*+?^${}()|[\]\\]/g,
+					"\\$&"
+				)}(?![\\w/-])`,
+				"m"
+			);
+			if (tags.includes(privateTag) || inlineTag.test(body)) {
+				add(
+					"error",
+					"private-tag",
+					`Note contains the private tag #${privateTag}`
+				);
+			}
+		}
+	}
+
+	private async checkLinks(file: TFile, body: string, add: IssueReporter) {
+		const { app } = this.plugin;
+
+		const { missing } = findEmbeddedAssets(app, body, file.path);
+		for (const embed of missing) {
+			add("warning", "unresolved-embed", `Embed not found: ${embed}`);
+		}
+
+		const checked = new Set<string>();
+		for (const link of collectWikilinks(body)) {
+			if (link.embed || !link.linkpath || checked.has(link.linkpath)) {
+				continue;
+			}
+			checked.add(link.linkpath);
+
+			const dest = resolveWikilink(app, link, file.path);
+			if (!dest) {
+				add(
+					"warning",
+					"broken-link",
+					`Link to missing note: ${link.linkpath}`
+				);
+				continue;
+			}
+			if (dest.extension !== "md") continue;
+
+			const destContent = await app.vault.cachedRead(dest);
+			if (
+				!this.plugin.isPublishable(
+					this.plugin.getFrontmatter(destContent)
+				)
+			) {
+				add(
+					"warning",
+					"unpublished-link",
+					`Link to unpublished note: ${link.linkpath}`
+				);
+			}
+		}
+	}
+
+	// Two published notes with the same slug would overwrite each other
+	private async checkSlugCollisions(
+		file: TFile,
+		content: string,
+		target: PublishTarget,
+		add: IssueReporter
+	) {
+		const { app } = this.plugin;
+		const outputPath = (note: TFile, noteContent: string) => {
+			if (target !== "hugo") return slugifyFilename(note.name);
+
+			// On a site only notes landing at the same path collide
+			const profile =
+				this.plugin.hugoExporter.resolveProfile(noteContent);
+			if (!profile) return slugifyFilename(note.name);
+			return this.plugin.hugoExporter.resolveTarget(
+				note,
+				noteContent,
+				profile
+			).contentPath;
+		};
+
+		const slug = slugifyFilename(file.name);
+		const path = outputPath(file, content);
+		for (const other of app.vault.getMarkdownFiles()) {
+			if (
+				other.path === file.path ||
+				slugifyFilename(other.name) !== slug
+			) {
+				continue;
+			}
+
+			const otherContent = await app.vault.cachedRead(other);
+			if (
+				this.plugin.isPublishable(
+					this.plugin.getFrontmatter(otherContent)
+				) &&
+				outputPath(other, otherContent) === path
+			) {
+				add(
+					"error",
+					"slug-collision",
+					`${other.path} is also published as ${slug}`
+				);
+			}
+		}
+	}
+}
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import {
+	buildAtom,
+	buildJsonFeed,
+	buildRss,
+	FeedItem,
+	FeedMetadata,
+} from "../src/feeds";
+
+const meta: FeedMetadata = {
+	title: "Notes & <Things>",
+	description: "What I've been writing",
+	siteUrl: "https://example.com/",
+	author: "Sam",
+};
+
+const items: FeedItem[] = [
+	{
+		id: "https://example.com/posts/fish-&-chips/",
+		title: "Fish & Chips <3",
+		url: "https://example.com/posts/fish-&-chips/",
+		date: new Date("2024-03-02T10:30:00Z"),
+		tags: ["food", "c++"],
+		html: '<p>Salt &amp; vinegar, "always"</p>',
+	},
+	{
+		id: "https://example.com/posts/untagged/",
+		title: "Untagged",
+		url: "https://example.com/posts/untagged/",
+		date: new Date("2024-01-15T00:00:00Z"),
+		tags: [],
+		html: "<p>Nothing to see</p>",
+	},
+];
+
+const RFC_822_REGEX =
+	/^(Mon|Tue|Wed|Thu|Fri|Sat|Sun), \d{2} (Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) \d{4} \d{2}:\d{2}:\d{2} GMT$/;
+const RFC_3339_REGEX =
+	/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Elements that may repeat always come back as arrays
+function parseXml(xml: string, repeated: string[]) {
+	assert.equal(
+		XMLValidator.validate(xml),
+		true,
+		"feed isn't well-formed XML"
+	);
+	return new XMLParser({
+		ignoreAttributes: false,
+		attributeNamePrefix: "@",
+		textNodeName: "#text",
+		isArray: (name) => repeated.includes(name),
+	}).parse(xml);
+}
+
+describe("buildRss", () => {
+	const { rss } = parseXml(buildRss(meta, items), ["item", "category"]);
+	const { channel } = rss;
+
+	it("is an RSS 2.0 document", () => {
+		assert.equal(rss["@version"], "2.0");
+	});
+
+	it("has the required channel elements", () => {
+		assert.equal(channel.title, meta.title);
+		assert.equal(channel.link, meta.siteUrl);
+		assert.equal(channel.description, meta.description);
+		assert.equal(channel["atom:link"]["@rel"], "self");
+		assert.equal(
+			channel["atom:link"]["@href"],
+			"https://example.com/rss.xml"
+		);
+		assert.match(channel.lastBuildDate, RFC_822_REGEX);
+	});
+
+	it("has an item per note with a title, link, guid and RFC 822 date", () => {
+		assert.equal(channel.item.length, items.length);
+		channel.item.forEach((item: Record<string, unknown>, i: number) => {
+			assert.equal(item.title, items[i].title);
+			assert.equal(item.link, items[i].url);
+			assert.equal(
+				(item.guid as Record<string, string>)["#text"],
+				items[i].id
+			);
+			assert.match(item.pubDate as string, RFC_822_REGEX);
+			assert.equal(item.description, items[i].html);
+		});
+		assert.deepEqual(channel.item[0].category, ["food", "c++"]);
+		assert.equal(channel.item[1].category, undefined);
+	});
+});
+
+describe("buildAtom", () => {
+	const { feed } = parseXml(buildAtom(meta, items), [
+		"entry",
+		"link",
+		"category",
+	]);
+
+	it("is in the Atom namespace", () => {
+		assert.equal(feed["@xmlns"], "http://www.w3.org/2005/Atom");
+	});
+
+	it("has the required feed elements", () => {
+		assert.equal(feed.id, "https://example.com/");
+		assert.equal(feed.title, meta.title);
+		assert.match(feed.updated, RFC_3339_REGEX);
+		assert.equal(feed.author.name, meta.author);
+
+		const self = feed.link.find(
+			(link: Record<string, string>) => link["@rel"] === "self"
+		);
+		assert.equal(self["@href"], "https://example.com/atom.xml");
+	});
+
+	it("has an entry per note with an id, title, updated date and content", () => {
+		assert.equal(feed.entry.length, items.length);
+		feed.entry.forEach((entry: Record<string, unknown>, i: number) => {
+			assert.equal(entry.id, items[i].url);
+			assert.equal(entry.title, items[i].title);
+			assert.match(entry.updated as string, RFC_3339_REGEX);
+			assert.equal(
+				(entry.link as Record<string, string>[])[0]["@href"],
+				items[i].url
+			);
+
+			const content = entry.content as Record<string, string>;
+			assert.equal(content["@type"], "html");
+			assert.equal(content["#text"], items[i].html);
+		});
+		assert.deepEqual(
+			feed.entry[0].category.map(
+				(category: Record<string, string>) => category["@term"]
+			),
+			["food", "c++"]
+		);
+	});
+});
+
+describe("buildJsonFeed", () => {
+	const feed = JSON.parse(buildJsonFeed(meta, items));
+
+	it("declares JSON Feed 1.1 and has the required top-level fields", () => {
+		assert.equal(feed.version, "https://jsonfeed.org/version/1.1");
+		assert.equal(typeof feed.title, "string");
+		assert.ok(Array.isArray(feed.items));
+		assert.equal(feed.home_page_url, meta.siteUrl);
+		assert.equal(feed.feed_url, "https://example.com/feed.json");
+		assert.deepEqual(feed.authors, [{ name: meta.author }]);
+	});
+
+	it("gives every item a string id and content", () => {
+		assert.equal(feed.items.length, items.length);
+		feed.items.forEach((item: Record<string, unknown>, i: number) => {
+			assert.equal(item.id, items[i].id);
+			assert.equal(item.url, items[i].url);
+			assert.equal(item.content_html, items[i].html);
+			assert.match(item.date_published as string, RFC_3339_REGEX);
+		});
+	});
+
+	it("leaves out optional fields without a value instead of nulling them", () => {
+		const bare = JSON.parse(
+			buildJsonFeed({ ...meta, description: "", author: "" }, items)
+		);
+		assert.equal("description" in bare, false);
+		assert.equal("authors" in bare, false);
+		assert.equal("tags" in bare.items[1], false);
+		assert.deepEqual(bare.items[0].tags, ["food", "c++"]);
+	});
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	ExportManifest,
+	findOrphans,
+	keepOrphans,
+	removeManifestEntry,
+} from "../src/hugo-manifest";
+
+function manifest(notes: ExportManifest["notes"]): ExportManifest {
+	return { notes };
+}
+
+describe("findOrphans", () => {
+	it("finds pages and images left behind by a note that moved", () => {
+		const previous = manifest({
+			"a.md": {
+				contentPath: "content/posts/a.md",
+				images: ["static/x.png", "static/shared.png"],
+			},
+			"b.md": { contentPath: "content/posts/b.md", images: [] },
+		});
+		const current = manifest({
+			"a.md": {
+				contentPath: "content/notes/a.md",
+				images: ["static/shared.png"],
+			},
+			"b.md": { contentPath: "content/posts/b.md", images: [] },
+		});
+
+		assert.deepEqual(findOrphans(previous, current), {
+			notes: [],
+			contentFiles: ["content/posts/a.md"],
+			images: ["static/x.png"],
+		});
+	});
+
+	it("counts stale paths from earlier exports", () => {
+		const previous = manifest({
+			"a.md": {
+				contentPath: "_posts/2024-01-02-a.md",
+				images: [],
+				stale: {
+					contentFiles: ["_posts/2024-01-01-a.md"],
+					images: ["assets/old.png"],
+				},
+			},
+		});
+		const current = manifest({
+			"a.md": { contentPath: "_posts/2024-01-02-a.md", images: [] },
+		});
+
+		const orphans = findOrphans(previous, current);
+		assert.deepEqual(orphans.contentFiles, ["_posts/2024-01-01-a.md"]);
+		assert.deepEqual(orphans.images, ["assets/old.png"]);
+	});
+});
+
+describe("keepOrphans", () => {
+	it("keeps what a note left behind as stale until it's cleaned up", () => {
+		const previous = manifest({
+			"a.md": {
+				contentPath: "content/posts/a.md",
+				images: ["static/x.png"],
+			},
+			"gone.md": { contentPath: "content/posts/gone.md", images: [] },
+		});
+		const current = manifest({
+			"a.md": { contentPath: "content/notes/a.md", images: [] },
+		});
+		const orphans = findOrphans(previous, current);
+		keepOrphans(previous, current, orphans);
+
+		assert.deepEqual(current.notes["a.md"].stale, {
+			contentFiles: ["content/posts/a.md"],
+			images: ["static/x.png"],
+		});
+		assert.deepEqual(current.notes["gone.md"], previous.notes["gone.md"]);
+
+		// The next export offers them again
+		const next = manifest({
+			"a.md": { contentPath: "content/notes/a.md", images: [] },
+		});
+		assert.deepEqual(findOrphans(current, next).contentFiles, [
+			"content/posts/a.md",
+			"content/posts/gone.md",
+		]);
+	});
+});
+
+describe("removeManifestEntry", () => {
+	it("keeps images another note still uses", () => {
+		const { manifest: remaining, orphans } = removeManifestEntry(
+			manifest({
+				"a.md": {
+					contentPath: "content/posts/a.md",
+					images: ["static/shared.png", "static/a.png"],
+				},
+				"b.md": {
+					contentPath: "content/posts/b.md",
+					images: ["static/shared.png"],
+				},
+			}),
+			"a.md"
+		);
+
+		assert.deepEqual(Object.keys(remaining.notes), ["b.md"]);
+		assert.deepEqual(orphans.contentFiles, ["content/posts/a.md"]);
+		assert.deepEqual(orphans.images, ["static/a.png"]);
+	});
+});
@@ -0,0 +1,31 @@
+// Stand-in for the parts of the Obsidian API the tested modules import.
+// Only what runs outside the app is implemented.
+
+export class TFile {
+	path = "";
+	name = "";
+	basename = "";
+	extension = "";
+}
+
+export class Notice {
+	constructor(message: string) {
+		console.log(`Notice: ${message}`);
+	}
+}
+
+export function parseYaml(): unknown {
+	throw new Error("parseYaml isn't available in tests");
+}
+
+export function stringifyYaml(): string {
+	throw new Error("stringifyYaml isn't available in tests");
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+	return Buffer.from(buffer).toString("base64");
+}
+
+export function arrayBufferToHex(buffer: ArrayBuffer): string {
+	return Buffer.from(buffer).toString("hex");
+}
@@ -0,0 +1,219 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { describe, it } from "node:test";
+import type { NotesSitePayload } from "../src/notes-site";
+import { PublishQueue, QueuedPublish } from "../src/publish-queue";
+
+// A local stand-in for notes.site. Notes named in `failing` get a 500,
+// notes named in `held` wait until released.
+class StubServer {
+	received: string[] = [];
+	failing = new Set<string>();
+	held = new Map<string, () => void>();
+	private holds = new Set<string>();
+	private server: Server;
+
+	constructor() {
+		this.server = createServer((request, response) =>
+			this.handle(request, response)
+		);
+	}
+
+	get url(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}/publish`;
+	}
+
+	hold(notePath: string) {
+		this.holds.add(notePath);
+	}
+
+	listen(): Promise<void> {
+		return new Promise((resolve) => this.server.listen(0, resolve));
+	}
+
+	close(): Promise<void> {
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+
+	private handle(request: IncomingMessage, response: ServerResponse) {
+		let body = "";
+		request.on("data", (chunk) => (body += chunk));
+		request.on("end", () => {
+			const { notePath } = JSON.parse(body) as { notePath: string };
+			const respond = () => {
+				this.received.push(notePath);
+				response.statusCode = this.failing.has(notePath) ? 500 : 200;
+				response.end();
+			};
+			if (this.holds.has(notePath)) {
+				this.held.set(notePath, respond);
+			} else {
+				respond();
+			}
+		});
+	}
+}
+
+function payload(id: string): NotesSitePayload {
+	return { id } as unknown as NotesSitePayload;
+}
+
+// Resolves once the server has a request for notePath waiting
+async function waitForHeld(server: StubServer, notePath: string) {
+	while (!server.held.has(notePath)) {
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+}
+
+// Each test gets its own server and a queue sending to it, on a clock
+// that only moves when the test moves it
+interface Harness {
+	server: StubServer;
+	queue: PublishQueue;
+	clock: { now: number };
+	saved: QueuedPublish[][];
+	givenUp: string[];
+}
+
+function withQueue(test: (harness: Harness) => Promise<void>) {
+	return async () => {
+		const server = new StubServer();
+		const clock = { now: 0 };
+		const saved: QueuedPublish[][] = [];
+		const givenUp: string[] = [];
+		const queue = new PublishQueue([], {
+			send: async (item) => {
+				const response = await fetch(server.url, {
+					method: "POST",
+					body: JSON.stringify({ notePath: item.notePath }),
+				});
+				if (!response.ok) {
+					throw new Error(`Responded with status ${response.status}`);
+				}
+			},
+			save: async (items) => {
+				saved.push(items.slice());
+			},
+			onGiveUp: (item) => givenUp.push(item.notePath),
+			maxAttempts: 3,
+			baseDelay: 1000,
+			now: () => clock.now,
+		});
+
+		await server.listen();
+		try {
+			await test({ server, queue, clock, saved, givenUp });
+		} finally {
+			await server.close();
+		}
+	};
+}
+
+describe("PublishQueue", () => {
+	it(
+		"sends due items and drops them once delivered",
+		withQueue(async ({ server, queue, saved }) => {
+			await queue.enqueue("a.md", payload("1"), false);
+			await queue.enqueue("b.md", payload("2"), false);
+			await queue.process();
+
+			assert.deepEqual(server.received, ["a.md", "b.md"]);
+			assert.equal(queue.items.length, 0);
+			assert.deepEqual(saved[saved.length - 1], []);
+		})
+	);
+
+	it(
+		"keeps one item per note, the newest payload wins",
+		withQueue(async ({ queue }) => {
+			await queue.enqueue("a.md", payload("1"), false);
+			await queue.enqueue("a.md", payload("2"), true);
+
+			assert.equal(queue.items.length, 1);
+			assert.equal(queue.items[0].payload.id, "2");
+			assert.equal(queue.items[0].updated, true);
+		})
+	);
+
+	it(
+		"backs off after a failed send and retries once due",
+		withQueue(async ({ server, queue, clock }) => {
+			server.failing.add("a.md");
+			await queue.enqueue("a.md", payload("1"), false);
+			await queue.process();
+
+			const [item] = queue.pending;
+			assert.equal(item.attempts, 1);
+			assert.equal(item.nextAttemptAt, 1000);
+			assert.match(item.lastError ?? "", /500/);
+
+			// Not due yet, nothing is sent
+			await queue.process();
+			assert.deepEqual(server.received, ["a.md"]);
+
+			server.failing.clear();
+			clock.now = 1000;
+			await queue.process();
+			assert.deepEqual(server.received, ["a.md", "a.md"]);
+			assert.equal(queue.items.length, 0);
+		})
+	);
+
+	it(
+		"gives up after maxAttempts and retries failed items on demand",
+		withQueue(async ({ server, queue, clock, givenUp }) => {
+			server.failing.add("a.md");
+			await queue.enqueue("a.md", payload("1"), false);
+			for (let attempt = 0; attempt < 3; attempt++) {
+				clock.now += 60 * 60 * 1000;
+				await queue.process();
+			}
+
+			assert.equal(queue.failed.length, 1);
+			assert.deepEqual(givenUp, ["a.md"]);
+
+			server.failing.clear();
+			await queue.retryFailed();
+			assert.equal(queue.items.length, 0);
+		})
+	);
+
+	it(
+		"sends items queued while a run is in flight before resolving",
+		withQueue(async ({ server, queue }) => {
+			server.hold("slow.md");
+			await queue.enqueue("slow.md", payload("1"), false);
+			const first = queue.process();
+			await waitForHeld(server, "slow.md");
+
+			await queue.enqueue("note.md", payload("2"), false);
+			const second = queue.process();
+			server.held.get("slow.md")?.();
+			await Promise.all([first, second]);
+
+			assert.deepEqual(server.received, ["slow.md", "note.md"]);
+			assert.equal(queue.pending.length, 0);
+		})
+	);
+
+	it(
+		"doesn't send an item removed while a run is in flight",
+		withQueue(async ({ server, queue }) => {
+			server.hold("slow.md");
+			await queue.enqueue("slow.md", payload("1"), false);
+			await queue.enqueue("gone.md", payload("2"), false);
+			const run = queue.process();
+			await waitForHeld(server, "slow.md");
+
+			await queue.remove("gone.md");
+			server.held.get("slow.md")?.();
+			await queue.idle();
+			await run;
+
+			assert.deepEqual(server.received, ["slow.md"]);
+			assert.equal(queue.items.length, 0);
+		})
+	);
+});
@@ -0,0 +1,40 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import process from "process";
+
+// Bundles each tests/*.test.ts and runs them with node's test runner.
+// Obsidian has no code outside the app, so tests get a small stand-in.
+
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const files = readdirSync(testDir).filter((file) => file.endsWith(".test.ts"));
+const outDir = mkdtempSync(path.join(tmpdir(), "plugin-tests-"));
+
+try {
+	await esbuild.build({
+		entryPoints: files.map((file) => path.join(testDir, file)),
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		logLevel: "error",
+		outdir: outDir,
+		alias: { obsidian: path.join(testDir, "obsidian.ts") },
+	});
+
+	const result = spawnSync(
+		process.execPath,
+		[
+			"--test",
+			...files.map((file) =>
+				path.join(outDir, file.replace(/\.ts$/, ".js"))
+			),
+		],
+		{ stdio: "inherit" }
+	);
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outDir, { recursive: true, force: true });
+}